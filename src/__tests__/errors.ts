@@ -0,0 +1,91 @@
+import * as supertest from 'supertest'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+const db = () => ({
+	users: [],
+	messages: [{ id: 1, text: 'hello', userId: 1 }],
+	posts: [{ id: 1, title: 'first' }],
+})
+const guards = { messages: 640, posts: 444 }
+
+describe('Bare error messages', () => {
+	test('[HAPPY] send the message by default', () => {
+		const app = inMemoryJsonServer(db(), guards)
+		return supertest(app)
+			.post('/register')
+			.send({ email: USER.email })
+			.expect(400, '"Email and password are required"')
+	})
+})
+
+describe('Error envelope', () => {
+	let rq: supertest.SuperTest<supertest.Test>
+
+	beforeEach(() => {
+		const app = inMemoryJsonServer(db(), guards, { errorEnvelope: true })
+		rq = supertest(app)
+	})
+
+	test('[HAPPY] wrap user errors with a code', async () => {
+		await rq.post('/register').send(USER)
+		const { body } = await rq
+			.post('/register')
+			.send(USER)
+			.expect(400)
+
+		expect(body).toEqual({ error: { code: 'EMAIL_TAKEN', message: 'Email already exists' } })
+	})
+
+	test('[HAPPY] wrap guard denials with a code', async () => {
+		const { body } = await rq.delete('/messages/1').expect(401)
+		expect(body.error.code).toBe('MISSING_AUTHORIZATION')
+
+		const { body: readOnly } = await rq.post('/posts').send({ title: 'second' }).expect(403)
+		expect(readOnly.error).toEqual({ code: 'READ_ONLY', message: 'Read only' })
+	})
+
+	test('[HAPPY] tell invalid tokens apart', async () => {
+		const { body } = await rq
+			.get('/messages')
+			.set({ Authorization: 'Bearer not-a-token' })
+			.expect(401)
+
+		expect(body.error.code).toBe('INVALID_TOKEN')
+	})
+
+	test('[HAPPY] tell revoked tokens apart', async () => {
+		const { body: tokens } = await rq.post('/register').send(USER)
+		// Refresh tokens are revoked once used
+		await rq.post('/token/refresh').send({ refreshToken: tokens.refreshToken })
+
+		const { body } = await rq
+			.post('/token/refresh')
+			.send({ refreshToken: tokens.refreshToken })
+			.expect(401)
+
+		expect(body.error.code).toBe('TOKEN_REVOKED')
+	})
+
+	test('[HAPPY] add details to forbidden fields', async () => {
+		const fieldGuards = { messages: { guard: 640, fields: { userId: 'readOnly' as const } } }
+		rq = supertest(inMemoryJsonServer(db(), fieldGuards, { errorEnvelope: true }))
+		const { body: tokens } = await rq.post('/register').send(USER)
+
+		const { body } = await rq
+			.patch('/messages/1')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.send({ userId: 2 })
+			.expect(403)
+
+		expect(body.error).toEqual({
+			code: 'FORBIDDEN_FIELDS',
+			message: 'Forbidden update on: userId',
+			details: { fields: ['userId'] },
+		})
+	})
+
+	test('[HAPPY] wrap relation errors with a code', async () => {
+		const { body } = await rq.get('/posts?_expand=author').expect(400)
+		expect(body.error.code).toBe('INVALID_RELATION_PATH')
+	})
+})
@@ -1,4 +1,7 @@
+import { hashSync } from 'bcryptjs'
+import { decode } from 'jsonwebtoken'
 import * as supertest from 'supertest'
+import { GuardRules } from '../guards'
 import { inMemoryJsonServer, USER } from './shared/tools'
 
 let rq: supertest.SuperTest<supertest.Test>
@@ -23,12 +26,14 @@ beforeEach(async () => {
 })
 
 describe('600: owner can read/write', () => {
-	test('[SAD] cannot list all users', async () => {
+	test('[HAPPY] can only list own information', async () => {
 		await rq.get('/users').expect(401)
-		await rq
+		const { body } = await rq
 			.get('/users')
 			.set(bearer)
-			.expect(403)
+			.expect(200)
+		expect(body).toHaveLength(1)
+		expect(body[0]).toMatchObject({ id: 2, email: USER.email })
 	})
 
 	test('[SAD] cannot get other users', async () => {
@@ -83,3 +88,600 @@ describe('640: owner can read/write, logged can read', () => {
 		return rq.get('/messages').expect(401)
 	})
 })
+
+describe('600: owner-scoped lists', () => {
+	beforeEach(async () => {
+		const db = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			notes: [
+				{ id: 1, text: 'c', userId: 1 },
+				{ id: 2, text: 'b', userId: 2 },
+				{ id: 3, text: 'a', userId: 2 },
+				{ id: 4, text: 'd', userId: 1 },
+				{ id: 5, text: 'e', userId: 2 },
+			],
+			drafts: [{ id: 1, text: 'no owner' }],
+		}
+		const app = inMemoryJsonServer(db, { notes: 600, drafts: 600 })
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+	})
+
+	test('[HAPPY] list only own entities', async () => {
+		const { body } = await rq
+			.get('/notes')
+			.set(bearer)
+			.expect(200)
+		expect(body.map((note: any) => note.id)).toEqual([2, 3, 5])
+	})
+
+	test('[HAPPY] sort, filter and paginate own entities', async () => {
+		const sorted = await rq
+			.get('/notes?_sort=text')
+			.set(bearer)
+			.expect(200)
+		expect(sorted.body.map((note: any) => note.text)).toEqual(['a', 'b', 'e'])
+
+		const filtered = await rq
+			.get('/notes?text_ne=b')
+			.set(bearer)
+			.expect(200)
+		expect(filtered.body.map((note: any) => note.id)).toEqual([3, 5])
+
+		const page = await rq
+			.get('/notes?_page=1&_limit=2')
+			.set(bearer)
+			.expect(200)
+		expect(page.body).toHaveLength(2)
+		expect(page.header['x-total-count']).toBe('3')
+	})
+
+	test('[SAD] cannot list other users entities with filters', async () => {
+		const byOwner = await rq
+			.get('/notes?userId=1')
+			.set(bearer)
+			.expect(200)
+		expect(byOwner.body).toEqual([])
+
+		const byId = await rq
+			.get('/notes?id_like=^[14]$')
+			.set(bearer)
+			.expect(200)
+		expect(byId.body).toEqual([])
+	})
+
+	test('[SAD] cannot list entities without owner', async () => {
+		const { body } = await rq
+			.get('/drafts')
+			.set(bearer)
+			.expect(200)
+		expect(body).toEqual([])
+	})
+})
+
+describe('Owner field', () => {
+	beforeEach(async () => {
+		const db = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			posts: [{ id: 1, text: 'other', authorId: 1 }, { id: 2, text: 'mine', authorId: 2 }],
+			listings: [{ id: 1, sellerId: 1 }, { id: 2, sellerId: 2 }],
+		}
+		const guards = {
+			posts: { guard: 640, owner: 'authorId' },
+			listings: { guard: 600, owner: 'sellerId' },
+		}
+		const app = inMemoryJsonServer(db, guards)
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+	})
+
+	test('[HAPPY] stamp the owner field on creation', () => {
+		return rq
+			.post('/posts')
+			.send({ text: 'new' })
+			.set(bearer)
+			.expect(201, { text: 'new', authorId: 2, id: 3 })
+	})
+
+	test('[HAPPY] can edit own entities', () => {
+		return rq
+			.patch('/posts/2')
+			.send({ text: 'changed' })
+			.set(bearer)
+			.expect(200, { id: 2, text: 'changed', authorId: 2 })
+	})
+
+	test('[SAD] cannot edit other users entities', async () => {
+		await rq
+			.patch('/posts/1')
+			.send({ text: 'changed' })
+			.set(bearer)
+			.expect(403)
+		await rq
+			.delete('/listings/1')
+			.set(bearer)
+			.expect(403)
+	})
+
+	test('[HAPPY] list only own entities', async () => {
+		const { body } = await rq
+			.get('/listings')
+			.set(bearer)
+			.expect(200)
+		expect(body).toEqual([{ id: 2, sellerId: 2 }])
+	})
+})
+
+describe('Shared ownership', () => {
+	beforeEach(async () => {
+		const db = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			lists: [
+				{ id: 1, name: 'shared', userId: 1, memberIds: [1, 2] },
+				{ id: 2, name: 'private', userId: 1, memberIds: [] },
+			],
+			households: [{ id: 1, memberIds: [1, 2] }, { id: 2, memberIds: [1] }],
+			chores: [
+				{ id: 1, name: 'dishes', userId: 1, householdId: 1 },
+				{ id: 2, name: 'laundry', userId: 1, householdId: 2 },
+			],
+		}
+		const guards = {
+			lists: { guard: 600, members: 'memberIds' },
+			chores: { guard: 600, group: { resource: 'households', members: 'memberIds' } },
+		}
+		const app = inMemoryJsonServer(db, guards)
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+	})
+
+	test('[HAPPY] members can read and edit shared entities', async () => {
+		await rq
+			.get('/lists/1')
+			.set(bearer)
+			.expect(200)
+		await rq
+			.patch('/lists/1')
+			.send({ name: 'groceries' })
+			.set(bearer)
+			.expect(200)
+	})
+
+	test('[HAPPY] members replacing a shared entity keep its owner', () => {
+		return rq
+			.put('/lists/1')
+			.send({ name: 'groceries', memberIds: [1, 2] })
+			.set(bearer)
+			.expect(200, { id: 1, name: 'groceries', memberIds: [1, 2], userId: 1 })
+	})
+
+	test('[SAD] non members cannot access entities', async () => {
+		await rq
+			.get('/lists/2')
+			.set(bearer)
+			.expect(403)
+		await rq
+			.put('/lists/2')
+			.send({ name: 'mine now' })
+			.set(bearer)
+			.expect(403)
+	})
+
+	test('[HAPPY] group members can access group entities', async () => {
+		await rq
+			.patch('/chores/1')
+			.send({ name: 'vacuum' })
+			.set(bearer)
+			.expect(200)
+		await rq
+			.get('/chores/2')
+			.set(bearer)
+			.expect(403)
+
+		const { body } = await rq
+			.get('/chores')
+			.set(bearer)
+			.expect(200)
+		expect(body.map((chore: any) => chore.id)).toEqual([1])
+	})
+
+	test('[SAD] cannot add entities to a group of others', async () => {
+		await rq
+			.post('/chores')
+			.send({ name: 'garden', householdId: 2 })
+			.set(bearer)
+			.expect(403, /member of the referenced group/)
+		await rq
+			.patch('/chores/1')
+			.send({ householdId: 2 })
+			.set(bearer)
+			.expect(403)
+		await rq
+			.post('/chores')
+			.send({ name: 'garden', householdId: 1 })
+			.set(bearer)
+			.expect(201)
+	})
+})
+
+describe('Custom id and foreign key suffix', () => {
+	let userId: string
+
+	beforeEach(async () => {
+		const db = {
+			users: [{ _id: 'a1', email: 'albert@gmail.com' }],
+			notes: [{ _id: 'n1', text: 'other', user_id: 'a1' }],
+		}
+		const app = inMemoryJsonServer(db, { users: 600, notes: 600 }, { id: '_id', foreignKeySuffix: '_id' })
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		userId = registerRes.body.user._id
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+	})
+
+	test('[HAPPY] stamp owner with the foreign key suffix', async () => {
+		const { body } = await rq
+			.post('/notes')
+			.send({ text: 'mine' })
+			.set(bearer)
+			.expect(201)
+		expect(body).toMatchObject({ text: 'mine', user_id: userId })
+
+		await rq
+			.get(`/notes/${body._id}`)
+			.set(bearer)
+			.expect(200)
+	})
+
+	test('[SAD] cannot read other users entities', async () => {
+		await rq
+			.get('/notes/n1')
+			.set(bearer)
+			.expect(403)
+
+		const { body } = await rq
+			.get('/notes')
+			.set(bearer)
+			.expect(200)
+		expect(body).toEqual([])
+	})
+
+	test('[HAPPY] can get own user with custom id', async () => {
+		await rq
+			.get(`/users/${userId}`)
+			.set(bearer)
+			.expect(200)
+		await rq
+			.get('/users/a1')
+			.set(bearer)
+			.expect(403)
+	})
+})
+
+describe('Revoked tokens', () => {
+	test('[SAD] cannot access guarded route after logout', async () => {
+		await rq
+			.get('/messages')
+			.set(bearer)
+			.expect(200)
+
+		await rq
+			.post('/logout')
+			.set(bearer)
+			.expect(204)
+
+		await rq
+			.get('/messages')
+			.set(bearer)
+			.expect(401, /revoked/)
+	})
+})
+
+describe('Roles', () => {
+	let adminBearer: { Authorization: string }
+
+	beforeEach(async () => {
+		const db = {
+			users: [{ id: 1, email: 'admin@mail.com', password: hashSync('admin123', 4), role: 'admin' }],
+			products: [{ id: 1, name: 'chair' }],
+			messages: [{ id: 1, text: 'mine', userId: 2 }],
+			orders: [{ id: 1, userId: 2 }],
+		}
+		const guards = {
+			products: { read: 'public', write: 'role:admin' },
+			messages: 600,
+			orders: { guard: 660, delete: 'role:admin,manager' },
+		}
+		const app = inMemoryJsonServer(db, guards)
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+
+		const loginRes = await rq.post('/login').send({ email: 'admin@mail.com', password: 'admin123' })
+		adminBearer = { Authorization: `Bearer ${loginRes.body.accessToken}` }
+	})
+
+	test('[HAPPY] roles are in the token claims', async () => {
+		const { body } = await rq.post('/login').send({ email: 'admin@mail.com', password: 'admin123' })
+		expect(decode(body.accessToken)).toMatchObject({ roles: ['admin'] })
+	})
+
+	test('[HAPPY] everyone can read, admin can write', async () => {
+		await rq.get('/products').expect(200)
+		await rq
+			.post('/products')
+			.send({ name: 'table' })
+			.set(adminBearer)
+			.expect(201)
+	})
+
+	test('[SAD] user without role cannot write', async () => {
+		await rq
+			.post('/products')
+			.send({ name: 'table' })
+			.expect(401)
+		await rq
+			.post('/products')
+			.send({ name: 'table' })
+			.set(bearer)
+			.expect(403, /requires role admin/)
+	})
+
+	test('[SAD] role required for a specific method', async () => {
+		await rq
+			.get('/orders/1')
+			.set(bearer)
+			.expect(200)
+		await rq
+			.delete('/orders/1')
+			.set(bearer)
+			.expect(403, /requires role admin or manager/)
+		await rq
+			.delete('/orders/1')
+			.set(adminBearer)
+			.expect(200)
+	})
+
+	test('[HAPPY] admin bypasses owner checks', async () => {
+		await rq
+			.get('/messages/1')
+			.set(adminBearer)
+			.expect(200)
+		await rq
+			.patch('/messages/1')
+			.send({ text: 'moderated' })
+			.set(adminBearer)
+			.expect(200, { id: 1, text: 'moderated', userId: 2 })
+	})
+
+	test('[SAD] cannot register as admin', () => {
+		return rq
+			.post('/register')
+			.send({ email: 'albert@mail.com', password: 'azerty123', role: 'admin' })
+			.expect(403, /only admins/i)
+	})
+
+	test('[SAD] user cannot change own roles', async () => {
+		await rq
+			.patch('/600/users/2')
+			.send({ roles: ['admin'] })
+			.set(bearer)
+			.expect(403, /only admins/i)
+		await rq
+			.patch('/600/users/2')
+			.send({ roles: ['manager'] })
+			.set(adminBearer)
+			.expect(200)
+	})
+})
+
+describe('Field policies', () => {
+	let adminBearer: { Authorization: string }
+
+	beforeEach(async () => {
+		const db = {
+			users: [{ id: 1, email: 'admin@mail.com', password: hashSync('admin123', 4), role: 'admin' }],
+			posts: [
+				{ id: 1, text: 'other', userId: 1, slug: 'other', notes: 'draft', featured: false },
+				{ id: 2, text: 'mine', userId: 2, slug: 'mine', notes: 'todo', featured: false },
+			],
+		}
+		const guards: GuardRules = {
+			posts: {
+				guard: 644,
+				fields: { userId: 'readOnly', slug: 'writeOnce', notes: 'ownerOnly', featured: 'adminOnly' },
+			},
+		}
+		const app = inMemoryJsonServer(db, guards)
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+
+		const loginRes = await rq.post('/login').send({ email: 'admin@mail.com', password: 'admin123' })
+		adminBearer = { Authorization: `Bearer ${loginRes.body.accessToken}` }
+	})
+
+	test('[SAD] owner cannot transfer an entity to another user', async () => {
+		await rq
+			.patch('/posts/2')
+			.send({ userId: 1 })
+			.set(bearer)
+			.expect(403, /Forbidden update on: userId/)
+		await rq
+			.put('/posts/2')
+			.send({ text: 'mine', userId: 1 })
+			.set(bearer)
+			.expect(403, /Forbidden update on: userId/)
+	})
+
+	test('[HAPPY] unchanged values can be sent back', () => {
+		return rq
+			.patch('/posts/2')
+			.send({ text: 'changed', userId: 2, slug: 'mine' })
+			.set(bearer)
+			.expect(200)
+	})
+
+	test('[HAPPY] replacement keeps protected fields', async () => {
+		const { body } = await rq
+			.put('/posts/2')
+			.send({ text: 'replaced' })
+			.set(bearer)
+			.expect(200)
+		expect(body).toMatchObject({ text: 'replaced', userId: 2, slug: 'mine' })
+	})
+
+	test('[SAD] write once fields cannot be changed', async () => {
+		await rq
+			.post('/posts')
+			.send({ text: 'new', slug: 'new' })
+			.set(bearer)
+			.expect(201)
+		await rq
+			.patch('/posts/3')
+			.send({ slug: 'renamed' })
+			.set(bearer)
+			.expect(403, /Forbidden update on: slug/)
+	})
+
+	test('[SAD] admin only fields', async () => {
+		await rq
+			.patch('/posts/2')
+			.send({ featured: true })
+			.set(bearer)
+			.expect(403, /Forbidden update on: featured/)
+		await rq
+			.patch('/posts/2')
+			.send({ featured: true })
+			.set(adminBearer)
+			.expect(200)
+	})
+
+	test('[HAPPY] owner only fields are hidden from other users', async () => {
+		const { body: list } = await rq.get('/posts').set(bearer)
+		expect(list[0]).not.toHaveProperty('notes')
+		expect(list[1]).toHaveProperty('notes', 'todo')
+
+		const { body: anonymous } = await rq.get('/posts/2')
+		expect(anonymous).not.toHaveProperty('notes')
+
+		const { body: admin } = await rq.get('/posts/1').set(adminBearer)
+		expect(admin).toHaveProperty('notes', 'draft')
+	})
+
+	test('[SAD] owner only fields cannot be probed with filters and sorts', async () => {
+		for (const query of ['notes_like=^dr', 'notes_like=^zz', 'notes=draft']) {
+			const { body } = await rq.get(`/posts?${query}`)
+			expect(body).toHaveLength(2)
+		}
+
+		const { body: sorted } = await rq.get('/posts?_sort=notes&_order=desc')
+		expect(sorted.map((post: any) => post.id)).toEqual([1, 2])
+
+		const { body: admin } = await rq.get('/posts?notes_like=^dr').set(adminBearer)
+		expect(admin).toHaveLength(1)
+	})
+
+	test('[SAD] owner only fields cannot be found with the full-text search', async () => {
+		for (const query of ['q=draft', 'q=nomatch']) {
+			const { body } = await rq.get(`/posts?${query}`)
+			expect(body).toHaveLength(2)
+		}
+
+		const { body: admin } = await rq.get('/posts?q=draft').set(adminBearer)
+		expect(admin).toHaveLength(1)
+	})
+
+	test('[SAD] owner only fields are hidden in the whole db', async () => {
+		const { body } = await rq.get('/db').set(bearer)
+		expect(body.posts[0]).not.toHaveProperty('notes')
+		expect(body.posts[1]).toHaveProperty('notes', 'todo')
+
+		const { body: admin } = await rq.get('/db').set(adminBearer)
+		expect(admin.posts[0]).toHaveProperty('notes', 'draft')
+	})
+
+	test('[SAD] unknown field policy', () => {
+		expect(() => inMemoryJsonServer({}, { posts: { fields: { text: 'secret' as any } } })).toThrow(
+			/Unknown policy "secret"/
+		)
+	})
+})
+
+describe('Guarded relations', () => {
+	beforeEach(async () => {
+		const db = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			posts: [{ id: 1, title: 'public', userId: 1 }, { id: 2, title: 'mine', userId: 2 }],
+			messages: [{ id: 1, text: 'other', postId: 1, userId: 1 }, { id: 2, text: 'mine', postId: 1, userId: 2 }],
+			comments: [{ id: 1, text: 'hello', postId: 1 }],
+		}
+		const guards = { users: 600, posts: 666, messages: 600, comments: 666 }
+		const app = inMemoryJsonServer(db, guards)
+		rq = supertest(app)
+
+		const registerRes = await rq.post('/register').send(USER)
+		bearer = { Authorization: `Bearer ${registerRes.body.accessToken}` }
+	})
+
+	test('[SAD] cannot expand records of a private resource', async () => {
+		const { body } = await rq
+			.get('/posts?_expand=user')
+			.set(bearer)
+			.expect(200)
+		expect(body[0].user).toBeNull()
+		expect(body[1].user).toMatchObject({ id: 2, email: USER.email })
+
+		const { body: anonymous } = await rq.get('/posts/2?_expand=user').expect(200)
+		expect(anonymous.user).toBeNull()
+	})
+
+	test('[SAD] cannot embed records of a private resource', async () => {
+		const { body } = await rq
+			.get('/posts/1?_embed=messages&_embed=comments')
+			.set(bearer)
+			.expect(200)
+		expect(body.messages).toEqual([{ id: 2, text: 'mine', postId: 1, userId: 2 }])
+		expect(body.comments).toHaveLength(1)
+	})
+
+	test('[SAD] cannot expand private records through declared relations', async () => {
+		const db = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			posts: [{ id: 1, title: 'public', authorId: 1 }],
+		}
+		const relations = { posts: { author: { belongsTo: 'users', foreignKey: 'authorId' } } }
+		const app = inMemoryJsonServer(db, { users: 600, posts: 666 }, { relations })
+
+		const { body } = await supertest(app)
+			.get('/posts/1?_expand=author')
+			.expect(200)
+		expect(body.author).toBeNull()
+	})
+
+	test('[SAD] cannot expand private records on write responses', async () => {
+		const { body } = await rq
+			.post('/comments?_expand=post.user')
+			.send({ text: 'new', postId: 1 })
+			.set(bearer)
+			.expect(201)
+		expect(body.post).toMatchObject({ id: 1, user: null })
+	})
+
+	test('[SAD] cannot expand private records through nested relations', async () => {
+		const { body } = await rq
+			.get('/comments/1?_expand=post.user')
+			.set(bearer)
+			.expect(200)
+		expect(body.post).toMatchObject({ id: 1, user: null })
+	})
+})
@@ -0,0 +1,92 @@
+import * as supertest from 'supertest'
+import { inMemoryJsonServer } from './shared/tools'
+
+let logSpy: jest.SpyInstance
+let errorSpy: jest.SpyInstance
+
+const db = () => ({ messages: [{ id: 1, text: 'hello', userId: 1 }] })
+const guards = { messages: 660 }
+
+const lines = (spy: jest.SpyInstance): string[] => spy.mock.calls.map(([line]) => line)
+
+beforeEach(() => {
+	logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+	errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+})
+
+afterEach(() => {
+	logSpy.mockRestore()
+	errorSpy.mockRestore()
+})
+
+describe('Request id', () => {
+	test('[HAPPY] send back a generated request id', async () => {
+		const app = inMemoryJsonServer(db(), guards)
+		const res = await supertest(app).get('/messages')
+		expect(res.header['x-request-id']).toMatch(/^[0-9a-f]{16}$/)
+	})
+
+	test('[HAPPY] keep the request id of a proxy', async () => {
+		const app = inMemoryJsonServer(db(), guards)
+		const res = await supertest(app)
+			.get('/messages')
+			.set('X-Request-Id', 'abc-123')
+		expect(res.header['x-request-id']).toBe('abc-123')
+	})
+})
+
+describe('Guard denials', () => {
+	test('[HAPPY] log the resource, method, user and reason', async () => {
+		const app = inMemoryJsonServer(db(), guards)
+		await supertest(app)
+			.delete('/messages/1')
+			.set('X-Request-Id', 'abc-123')
+			.expect(401)
+
+		const [line] = lines(logSpy).filter((log) => log.includes('Access denied'))
+		expect(line).toMatch(/INFO  Access denied requestId=abc-123 status=401 resource=messages method=DELETE/)
+		expect(line).toMatch(/reason="Missing authorization header"/)
+	})
+
+	test('[HAPPY] log in JSON format', async () => {
+		const app = inMemoryJsonServer(db(), guards, { logFormat: 'json' })
+		await supertest(app)
+			.get('/messages')
+			.set('X-Request-Id', 'abc-123')
+			.expect(401)
+
+		const [line] = lines(logSpy).filter((log) => log.includes('Access denied'))
+		expect(JSON.parse(line)).toMatchObject({
+			level: 'info',
+			message: 'Access denied',
+			requestId: 'abc-123',
+			resource: 'messages',
+			method: 'GET',
+			status: 401,
+		})
+	})
+
+	test('[HAPPY] do not log under the log level', async () => {
+		const app = inMemoryJsonServer(db(), guards, { logLevel: 'error' })
+		await supertest(app)
+			.get('/messages')
+			.expect(401)
+
+		expect(lines(logSpy).filter((log) => log.includes('Access denied'))).toEqual([])
+	})
+})
+
+describe('Errors', () => {
+	test('[HAPPY] log errors with the request id', async () => {
+		const fieldGuards = { messages: { fields: { text: 'ownerOnly' as const } } }
+		const app = inMemoryJsonServer(db(), fieldGuards, { logLevel: 'error' })
+		// A db that is not bound to the app is a server error
+		delete app.db
+		await supertest(app)
+			.get('/messages')
+			.set('X-Request-Id', 'abc-123')
+			.expect(500)
+
+		expect(lines(errorSpy)[0]).toMatch(/ERROR You must bind the router db.* requestId=abc-123/)
+	})
+})
@@ -1,19 +1,17 @@
 import * as request from 'supertest'
-import * as express from 'express'
-import * as bodyParser from 'body-parser'
-import * as jsonServer from 'json-server'
-import nestedExpandMiddleware from '../nested-expand'
+import { Application } from 'express'
+import * as relationsModule from '../relations'
+import { inMemoryJsonServer } from './shared/tools'
 
 describe('Nested Expand Middleware', () => {
-    let app: express.Application
-    let router: express.Router
-    let server: any
+    let app: Application
 
     // Sample data for testing
-    const db = {
+    const db = () => ({
         people: [
             { id: 1, name: 'John Smith', cityId: 1 },
-            { id: 2, name: 'Jane Doe', cityId: 2 }
+            { id: 2, name: 'Jane Doe', cityId: 2 },
+            { id: 3, name: 'Invalid Person', cityId: 999 }
         ],
         cities: [
             { id: 1, name: 'New York', stateId: 1 },
@@ -26,32 +24,10 @@ describe('Nested Expand Middleware', () => {
         countries: [
             { id: 1, name: 'USA' }
         ]
-    }
-
-    beforeEach(() => {
-        // Create Express app
-        app = express()
-
-        // Create JSON Server router
-        router = jsonServer.router(db)
-
-        // Set up the app
-        app.use(bodyParser.json())
-        app.use(bodyParser.urlencoded({ extended: false }))
-
-        // Add our nested expand middleware
-        app.use(nestedExpandMiddleware)
-
-        // Add the router
-        app.use(router)
-
-        // Create server
-        server = app.listen(3000)
     })
 
-    afterEach(() => {
-        // Close server after each test
-        server.close()
+    beforeEach(() => {
+        app = inMemoryJsonServer(db())
     })
 
     test('should expand a single level resource', async () => {
@@ -120,40 +96,353 @@ describe('Nested Expand Middleware', () => {
     })
 
     test('should gracefully handle non-existent resources', async () => {
-        // Modify a person to have a non-existent city ID
-        const modifiedDb = {
-            ...db,
-            people: [
-                { id: 3, name: 'Invalid Person', cityId: 999 },
-                ...db.people
-            ]
-        }
+        const response = await request(app)
+            .get('/people/3?_expand=city.state')
+            .expect('Content-Type', /json/)
+            .expect(200)
+
+        // Should still return the person, just without the expanded city
+        expect(response.body).toHaveProperty('id', 3)
+        expect(response.body).toHaveProperty('name', 'Invalid Person')
+        expect(response.body).toHaveProperty('cityId', 999)
+        expect(response.body).not.toHaveProperty('city')
+    })
+
+    test('should not modify the database', async () => {
+        await request(app).get('/people/1?_expand=city.state')
+
+        const response = await request(app)
+            .get('/cities/1')
+            .expect(200)
+
+        expect(response.body).not.toHaveProperty('state')
+    })
+})
+
+describe('Nested Expand Middleware with irregular plurals', () => {
+    const db = () => ({
+        pets: [{ id: 1, name: 'Rex', personId: 1 }],
+        people: [{ id: 1, name: 'John Smith', addressId: 1, countryId: 1 }],
+        addresses: [{ id: 1, street: 'Broadway' }],
+        countrys: [{ id: 1, name: 'USA' }]
+    })
+
+    test('should expand irregular nouns at any depth', async () => {
+        const app = inMemoryJsonServer(db())
+
+        const response = await request(app)
+            .get('/pets?_expand=person.address')
+            .expect(200)
+
+        expect(response.body[0].person).toHaveProperty('name', 'John Smith')
+        expect(response.body[0].person.address).toHaveProperty('street', 'Broadway')
+    })
+
+    test('should use the configured plurals', async () => {
+        const app = inMemoryJsonServer(db(), {}, { plurals: { country: 'countrys' } })
+
+        const response = await request(app)
+            .get('/pets/1?_expand=person.country')
+            .expect(200)
+
+        expect(response.body.person.country).toHaveProperty('name', 'USA')
+    })
+})
+
+describe('Nested Expand Middleware with custom id and foreign key suffix', () => {
+    const db = {
+        people: [{ _id: 'p1', name: 'John Smith', city_id: 'c1' }],
+        cities: [{ _id: 'c1', name: 'Nashville', state_id: 's1' }],
+        states: [{ _id: 's1', name: 'Tennessee' }],
+    }
+
+    test('should expand nested resources using the configured keys', async () => {
+        const app = inMemoryJsonServer(db, {}, { id: '_id', foreignKeySuffix: '_id' })
 
-        // Create a new router with the modified DB
-        const modifiedRouter = jsonServer.router(modifiedDb)
-
-        // Create a new app with the modified router
-        const modifiedApp = express()
-        modifiedApp.use(bodyParser.json())
-        modifiedApp.use(bodyParser.urlencoded({ extended: false }))
-        modifiedApp.use(nestedExpandMiddleware)
-        modifiedApp.use(modifiedRouter)
-
-        const modifiedServer = modifiedApp.listen(3001)
-
-        try {
-            const response = await request(modifiedApp)
-                .get('/people/3?_expand=city.state')
-                .expect('Content-Type', /json/)
-                .expect(200)
-
-            // Should still return the person, just without the expanded city
-            expect(response.body).toHaveProperty('id', 3)
-            expect(response.body).toHaveProperty('name', 'Invalid Person')
-            expect(response.body).toHaveProperty('cityId', 999)
-            expect(response.body).not.toHaveProperty('city')
-        } finally {
-            modifiedServer.close()
+        const response = await request(app)
+            .get('/people/p1?_expand=city.state')
+            .expect(200)
+
+        expect(response.body.city).toHaveProperty('_id', 'c1')
+        expect(response.body.city.state).toHaveProperty('name', 'Tennessee')
+    })
+})
+
+describe('Nested Embed Middleware', () => {
+    let app: Application
+
+    const db = () => ({
+        users: [
+            { id: 1, name: 'Ada' },
+            { id: 2, name: 'Grace' }
+        ],
+        posts: [
+            { id: 1, title: 'First', userId: 1 },
+            { id: 2, title: 'Second', userId: 1 },
+            { id: 3, title: 'Third', userId: 2 }
+        ],
+        comments: [
+            { id: 1, text: 'Nice', postId: 1, userId: 2 },
+            { id: 2, text: 'Thanks', postId: 1, userId: 1 },
+            { id: 3, text: 'Hello', postId: 3, userId: 1 }
+        ]
+    })
+
+    beforeEach(() => {
+        app = inMemoryJsonServer(db())
+    })
+
+    test('should embed a single level resource', async () => {
+        const response = await request(app)
+            .get('/users/1?_embed=posts')
+            .expect(200)
+
+        expect(response.body.posts).toHaveLength(2)
+    })
+
+    test('should embed nested resources with dot notation', async () => {
+        const response = await request(app)
+            .get('/users/1?_embed=posts.comments')
+            .expect(200)
+
+        expect(response.body.posts[0].comments).toHaveLength(2)
+        expect(response.body.posts[1].comments).toEqual([])
+    })
+
+    test('should expand the records of an embedded resource', async () => {
+        const response = await request(app)
+            .get('/posts?_embed=comments&_expand=comments.user')
+            .expect(200)
+
+        expect(response.body[0].comments[0].user).toHaveProperty('name', 'Grace')
+        expect(response.body[0].comments[1].user).toHaveProperty('name', 'Ada')
+        expect(response.body[2].comments[0].user).toHaveProperty('name', 'Ada')
+    })
+
+    test('should embed the records of an expanded resource', async () => {
+        const response = await request(app)
+            .get('/comments/3?_expand=post&_embed=post.comments')
+            .expect(200)
+
+        expect(response.body.post).toHaveProperty('title', 'Third')
+        expect(response.body.post.comments).toHaveLength(1)
+    })
+})
+
+describe('Nested Expand Middleware with a relations schema', () => {
+    let app: Application
+
+    const db = () => ({
+        users: [{ id: 1, name: 'Ada' }],
+        posts: [{ id: 1, title: 'First', authorId: 1 }],
+        tags: [{ id: 1, name: 'news' }, { id: 2, name: 'tech' }, { id: 3, name: 'misc' }],
+        postTags: [{ id: 1, postId: 1, tagId: 2 }, { id: 2, postId: 1, tagId: 1 }],
+        employees: [
+            { id: 1, name: 'Boss', managerId: null },
+            { id: 2, name: 'Employee', managerId: 1 }
+        ]
+    })
+
+    const relations = {
+        posts: {
+            author: { belongsTo: 'users', foreignKey: 'authorId' },
+            tags: { manyToMany: 'tags', through: 'postTags' }
+        },
+        employees: {
+            manager: { belongsTo: 'employees' },
+            reports: { hasMany: 'employees', foreignKey: 'managerId' }
         }
+    }
+
+    beforeEach(() => {
+        app = inMemoryJsonServer(db(), {}, { relations })
+    })
+
+    test('should expand an aliased relation', async () => {
+        const response = await request(app)
+            .get('/posts/1?_expand=author')
+            .expect(200)
+
+        expect(response.body.author).toEqual({ id: 1, name: 'Ada' })
+    })
+
+    test('should expand a many-to-many relation through the join collection', async () => {
+        const response = await request(app)
+            .get('/posts/1?_expand=tags')
+            .expect(200)
+
+        expect(response.body.tags).toEqual([{ id: 2, name: 'tech' }, { id: 1, name: 'news' }])
+    })
+
+    test('should resolve self references', async () => {
+        const response = await request(app)
+            .get('/employees?_expand=manager&_embed=reports')
+            .expect(200)
+
+        expect(response.body[0]).not.toHaveProperty('manager')
+        expect(response.body[0].reports).toEqual([{ id: 2, name: 'Employee', managerId: 1 }])
+        expect(response.body[1].manager).toHaveProperty('name', 'Boss')
+        expect(response.body[1].reports).toEqual([])
+    })
+
+    test('should reject an invalid relation at startup', () => {
+        const schema = { posts: { tags: { through: 'postTags' } } }
+
+        expect(() => inMemoryJsonServer(db(), {}, { relations: schema })).toThrow(
+            /Invalid relation "posts.tags"/
+        )
+    })
+})
+
+describe('Nested Expand Middleware on a large dataset', () => {
+    const range = (length: number) => Array.from({ length }, (_, i) => i + 1)
+
+    // Generated dataset: 100 states, 1000 cities, 5000 people
+    const db = {
+        states: range(100).map((id) => ({ id, name: `State ${id}` })),
+        cities: range(1000).map((id) => ({ id, name: `City ${id}`, stateId: (id % 100) + 1 })),
+        people: range(5000).map((id) => ({ id, name: `Person ${id}`, cityId: (id % 1000) + 1 }))
+    }
+
+    let app: Application
+    let createIndexSpy: jest.SpyInstance
+
+    beforeAll(() => {
+        app = inMemoryJsonServer(db)
+    })
+
+    beforeEach(() => {
+        createIndexSpy = jest.spyOn(relationsModule, 'createIndex')
+    })
+
+    afterEach(() => {
+        createIndexSpy.mockRestore()
+    })
+
+    test('should expand thousands of records two levels deep with a single index', async () => {
+        const response = await request(app)
+            .get('/people?_expand=city.state')
+            .expect(200)
+
+        expect(response.body).toHaveLength(5000)
+        response.body.forEach((person: any) => {
+            expect(person.city.id).toBe(person.cityId)
+            expect(person.city.state.id).toBe(person.city.stateId)
+        })
+        // Related records are looked up in an index built once for the request, not once per record
+        expect(createIndexSpy).toHaveBeenCalledTimes(1)
+    })
+
+    test('should embed thousands of records two levels deep with a single index', async () => {
+        const response = await request(app)
+            .get('/states?_embed=cities.people')
+            .expect(200)
+
+        expect(response.body).toHaveLength(100)
+        response.body.forEach((state: any) => {
+            expect(state.cities).toHaveLength(10)
+            state.cities.forEach((city: any) => {
+                expect(city.stateId).toBe(state.id)
+                expect(city.people).toHaveLength(5)
+                city.people.forEach((person: any) => expect(person.cityId).toBe(city.id))
+            })
+        })
+        expect(createIndexSpy).toHaveBeenCalledTimes(1)
+    })
+})
+
+describe('Nested Expand Middleware on write responses', () => {
+    let app: Application
+
+    const db = () => ({
+        customers: [{ id: 1, name: 'Ada', countryId: 1 }],
+        countries: [{ id: 1, name: 'UK' }],
+        products: [{ id: 1, name: 'Chair' }],
+        orders: [{ id: 1, customerId: 1 }],
+        lineItems: [{ id: 1, orderId: 1, productId: 1 }]
+    })
+
+    beforeEach(() => {
+        app = inMemoryJsonServer(db())
+    })
+
+    test('should expand the created record', async () => {
+        const response = await request(app)
+            .post('/orders?_expand=customer.country&_embed=lineItems')
+            .send({ customerId: 1 })
+            .expect(201)
+
+        expect(response.body).toMatchObject({ id: 2, customerId: 1, lineItems: [] })
+        expect(response.body.customer.country).toHaveProperty('name', 'UK')
+    })
+
+    test('should expand the updated record', async () => {
+        const response = await request(app)
+            .patch('/orders/1?_embed=lineItems&_expand=lineItems.product')
+            .send({ note: 'fragile' })
+            .expect(200)
+
+        expect(response.body).toHaveProperty('note', 'fragile')
+        expect(response.body.lineItems[0].product).toHaveProperty('name', 'Chair')
+
+        const stored = await request(app).get('/orders/1')
+        expect(stored.body).not.toHaveProperty('lineItems')
+    })
+
+    test('should expand the replaced record', async () => {
+        const response = await request(app)
+            .put('/orders/1?_expand=customer')
+            .send({ customerId: 1, note: 'replaced' })
+            .expect(200)
+
+        expect(response.body.customer).toHaveProperty('name', 'Ada')
+    })
+})
+
+describe('Nested Expand Middleware limits', () => {
+    const db = () => ({
+        people: [{ id: 1, name: 'John Smith', cityId: 1 }],
+        cities: [{ id: 1, name: 'Nashville', stateId: 1 }],
+        states: [{ id: 1, name: 'Tennessee' }],
+        employees: [
+            { id: 1, name: 'Ann', managerId: 2 },
+            { id: 2, name: 'Bob', managerId: 1 }
+        ]
+    })
+
+    test('should reject a path with a missing relation', async () => {
+        const app = inMemoryJsonServer(db())
+
+        await request(app)
+            .get('/people/1?_expand=city.planet')
+            .expect(400, /planet.* is not a relation of cities/)
+    })
+
+    test('should reject a path deeper than the maximum depth', async () => {
+        const app = inMemoryJsonServer(db(), {}, { maxExpandDepth: 2 })
+
+        await request(app)
+            .get('/people/1?_expand=city.state.country')
+            .expect(400, /city.state.country.* the maximum depth is 2/)
+    })
+
+    test('should reject more relations than the maximum breadth', async () => {
+        const app = inMemoryJsonServer(db(), {}, { maxExpandBreadth: 1 })
+
+        await request(app)
+            .get('/cities/1?_expand=state&_embed=people')
+            .expect(400, /Too many relations: the maximum is 1/)
+    })
+
+    test('should not resolve a record again inside itself', async () => {
+        const relations = { employees: { manager: { belongsTo: 'employees' } } }
+        const app = inMemoryJsonServer(db(), {}, { relations })
+
+        const response = await request(app)
+            .get('/employees/1?_expand=manager.manager.manager')
+            .expect(200)
+
+        expect(response.body.manager).toHaveProperty('name', 'Bob')
+        expect(response.body.manager.manager).toEqual({ id: 1, name: 'Ann', managerId: 2 })
     })
-})
\ No newline at end of file
+})
@@ -0,0 +1,128 @@
+import { Application } from 'express'
+import * as supertest from 'supertest'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+let app: Application
+let rq: supertest.SuperTest<supertest.Test>
+let logSpy: jest.SpyInstance
+
+const outbox = () => app.db!.get('_outbox').value() || []
+
+/**
+ * Request a reset and read the token from the last email of the outbox
+ */
+async function resetToken(): Promise<string> {
+	await rq
+		.post('/password/forgot')
+		.send({ email: USER.email })
+		.expect(204)
+
+	const [mail] = outbox().slice(-1)
+	return mail.text.match(/: (\S+)$/)[1]
+}
+
+beforeEach(async () => {
+	logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+	app = inMemoryJsonServer({ users: [] })
+	rq = supertest(app)
+	await rq.post('/register').send(USER)
+})
+
+afterEach(() => {
+	logSpy.mockRestore()
+})
+
+describe('Forgot password', () => {
+	test('[HAPPY] write a reset email to the outbox and the console', async () => {
+		await resetToken()
+
+		expect(outbox()).toHaveLength(1)
+		expect(outbox()[0]).toMatchObject({ to: USER.email, subject: 'Reset your password' })
+		expect(logSpy.mock.calls.some(([line]) => line.includes(`Email to ${USER.email}`))).toBe(true)
+	})
+
+	test('[HAPPY] same response for an unknown email', async () => {
+		await rq
+			.post('/password/forgot')
+			.send({ email: 'nobody@mail.com' })
+			.expect(204)
+
+		expect(outbox()).toHaveLength(0)
+	})
+
+	test('[SAD] email is required', () => {
+		return rq
+			.post('/password/forgot')
+			.send({})
+			.expect(400, /email is required/i)
+	})
+
+	test('[SAD] outbox is not served', async () => {
+		await resetToken()
+
+		await rq.get('/_outbox').expect(404)
+		const { body } = await rq.get('/db').expect(200)
+		expect(body).not.toHaveProperty('_outbox')
+	})
+})
+
+describe('Reset password', () => {
+	test('[HAPPY] set a new password and log in', async () => {
+		const token = await resetToken()
+
+		const { body } = await rq
+			.post('/password/reset')
+			.send({ token, password: 'qwerty456' })
+			.expect(200)
+		expect(body.accessToken).toBeTruthy()
+
+		await rq
+			.post('/login')
+			.send({ email: USER.email, password: 'qwerty456' })
+			.expect(200)
+	})
+
+	test('[SAD] reset token is single-use', async () => {
+		const token = await resetToken()
+
+		await rq.post('/password/reset').send({ token, password: 'qwerty456' }).expect(200)
+		await rq.post('/password/reset').send({ token, password: 'azerty789' }).expect(401, /revoked/)
+	})
+
+	test('[SAD] reset revokes tokens issued before', async () => {
+		const { body: tokens } = await rq.post('/login').send(USER)
+		const token = await resetToken()
+
+		await rq.post('/password/reset').send({ token, password: 'qwerty456' }).expect(200)
+		await rq
+			.get('/me')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.expect(401, /revoked/)
+	})
+
+	test('[SAD] reset token cannot be used as access token', async () => {
+		const token = await resetToken()
+
+		return rq
+			.get('/me')
+			.set({ Authorization: `Bearer ${token}` })
+			.expect(401, /access token/)
+	})
+
+	test('[SAD] invalid input', async () => {
+		const token = await resetToken()
+
+		await rq
+			.post('/password/reset')
+			.send({ token })
+			.expect(400, /required/)
+		await rq
+			.post('/password/reset')
+			.send({ token, password: 'abc' })
+			.expect(400, /too short/)
+		await rq
+			.post('/password/reset')
+			.send({ token: 'not-a-token', password: 'qwerty456' })
+			.expect(401)
+	})
+})
@@ -0,0 +1,127 @@
+import * as supertest from 'supertest'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+let rq: supertest.SuperTest<supertest.Test>
+
+const db = () => ({
+	people: [
+		{ id: 1, name: 'Ann', cityId: 1, address: { zip: '37201' } },
+		{ id: 2, name: 'Bob', cityId: 2, address: { zip: '15201' } },
+		{ id: 3, name: 'Cid', cityId: 3, address: { zip: '37901' } },
+		{ id: 4, name: 'Dee', cityId: 1, address: { zip: '37202' } },
+	],
+	cities: [
+		{ id: 1, name: 'Nashville', stateId: 1 },
+		{ id: 2, name: 'Pittsburgh', stateId: 2 },
+		{ id: 3, name: 'Knoxville', stateId: 1 },
+	],
+	states: [{ id: 1, name: 'Tennessee' }, { id: 2, name: 'Pennsylvania' }],
+})
+
+beforeEach(() => {
+	rq = supertest(inMemoryJsonServer(db()))
+})
+
+describe('Relational filters', () => {
+	test('[HAPPY] filter by a field of a nested relation', async () => {
+		const { body } = await rq.get('/people?city.state.name=Tennessee').expect(200)
+		expect(body.map((person: any) => person.name)).toEqual(['Ann', 'Cid', 'Dee'])
+	})
+
+	test('[HAPPY] filter with operators and other params', async () => {
+		const { body } = await rq.get('/people?city.name_like=ville&name_ne=Ann').expect(200)
+		expect(body.map((person: any) => person.name)).toEqual(['Cid', 'Dee'])
+	})
+
+	test('[HAPPY] filter and expand the same relation', async () => {
+		const { body } = await rq.get('/people?city.name=Pittsburgh&_expand=city.state').expect(200)
+		expect(body).toHaveLength(1)
+		expect(body[0].city.state).toHaveProperty('name', 'Pennsylvania')
+	})
+
+	test('[HAPPY] stored nested objects are still filtered by json-server', async () => {
+		const { body } = await rq.get('/people?address.zip_like=^37').expect(200)
+		expect(body).toHaveLength(3)
+	})
+
+	test('[HAPPY] filter one-to-many relations', async () => {
+		const { body } = await rq.get('/states?cities.name=Knoxville').expect(200)
+		expect(body).toEqual([{ id: 1, name: 'Tennessee' }])
+	})
+})
+
+describe('Relational sorts and pagination', () => {
+	test('[HAPPY] sort by a field of a relation', async () => {
+		const { body } = await rq.get('/people?_sort=city.name,name&_order=desc,asc').expect(200)
+		expect(body.map((person: any) => person.name)).toEqual(['Bob', 'Ann', 'Dee', 'Cid'])
+	})
+
+	test('[HAPPY] paginate after filtering', async () => {
+		const res = await rq.get('/people?city.state.name=Tennessee&_page=1&_limit=2').expect(200)
+		expect(res.body.map((person: any) => person.name)).toEqual(['Ann', 'Cid'])
+		expect(res.header['x-total-count']).toBe('3')
+		expect(res.header.link).toMatch(/_page=2.*rel="next"/)
+	})
+
+	test('[HAPPY] slice after sorting', async () => {
+		const res = await rq.get('/people?_sort=city.name&_start=1&_end=3').expect(200)
+		expect(res.body.map((person: any) => person.name)).toEqual(['Ann', 'Dee'])
+		expect(res.header['x-total-count']).toBe('4')
+	})
+})
+
+describe('Guarded relational filters', () => {
+	test('[SAD] cannot filter by fields of private records', async () => {
+		const data = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			posts: [{ id: 1, title: 'first', userId: 1 }],
+		}
+		const app = inMemoryJsonServer(data, { users: 600, posts: 666 })
+		rq = supertest(app)
+		const { body: tokens } = await rq.post('/register').send(USER)
+
+		const { body } = await rq
+			.get('/posts?user.email=albert@gmail.com')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.expect(200)
+		expect(body).toEqual([])
+	})
+
+	test('[SAD] cannot filter by secret fields of related users', async () => {
+		const data = {
+			users: [{ id: 1, email: 'albert@gmail.com', password: 'hashed', apiKey: 'key' }],
+			posts: [{ id: 1, title: 'first', userId: 1 }, { id: 2, title: 'second' }],
+		}
+		const app = inMemoryJsonServer(data, { users: 644, posts: 644 }, { secretFields: ['apiKey'] })
+		rq = supertest(app)
+
+		const queries = ['user.password=hashed', 'user.password_like=^h', 'user.apiKey=key']
+		for (const query of queries) {
+			const res = await rq.get(`/posts?${query}`).expect(200)
+			expect(res.body).toHaveLength(2)
+		}
+		const { body } = await rq.get('/posts?_sort=user.apiKey&_order=desc').expect(200)
+		expect(body.map((post: any) => post.id)).toEqual([1, 2])
+	})
+
+	test('[SAD] cannot filter by owner only fields of other users', async () => {
+		const data = {
+			users: [{ id: 1, email: 'albert@gmail.com' }],
+			posts: [{ id: 1, title: 'first', userId: 2, notes: 'top secret' }],
+			comments: [{ id: 1, text: 'nice', postId: 1 }],
+		}
+		const guards = { posts: { guard: 644, fields: { notes: 'ownerOnly' as const } } }
+		rq = supertest(inMemoryJsonServer(data, guards))
+		const { body: tokens } = await rq.post('/register').send(USER)
+
+		for (const query of ['post.notes_like=^top', 'post.notes_like=^zzz']) {
+			const res = await rq.get(`/comments?${query}`).expect(200)
+			expect(res.body).toEqual([])
+		}
+		const { body } = await rq
+			.get('/comments?post.notes_like=^top')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.expect(200)
+		expect(body).toHaveLength(1)
+	})
+})
@@ -0,0 +1,96 @@
+import * as supertest from 'supertest'
+import { inMemoryJsonServer } from './shared/tools'
+
+let rq: supertest.SuperTest<supertest.Test>
+
+beforeEach(() => {
+	const db = {
+		users: [{ id: 1, email: 'jeremy@mail.com', password: 'hash', apiKey: 'secret', name: 'Jeremy' }],
+		posts: [{ id: 1, title: 'Hello', userId: 1 }],
+		comments: [{ id: 1, text: 'First', postId: 1, userId: 1 }],
+	}
+	const app = inMemoryJsonServer(db, {}, { secretFields: ['apiKey'] })
+	rq = supertest(app)
+})
+
+describe('Secret fields', () => {
+	test('[HAPPY] list users without secrets', async () => {
+		const { body } = await rq.get('/users').expect(200)
+		expect(body).toEqual([{ id: 1, email: 'jeremy@mail.com', name: 'Jeremy' }])
+	})
+
+	test('[HAPPY] get user without secrets', async () => {
+		const { body } = await rq.get('/users/1').expect(200)
+		expect(body).not.toHaveProperty('password')
+		expect(body).not.toHaveProperty('apiKey')
+	})
+
+	test('[HAPPY] expanded user without secrets', async () => {
+		const { body } = await rq.get('/posts/1?_expand=user').expect(200)
+		expect(body.user).toEqual({ id: 1, email: 'jeremy@mail.com', name: 'Jeremy' })
+	})
+
+	test('[HAPPY] user with embedded resources without secrets', async () => {
+		const { body } = await rq.get('/users/1?_embed=posts').expect(200)
+		expect(body).not.toHaveProperty('password')
+		expect(body.posts).toHaveLength(1)
+	})
+
+	test('[HAPPY] nested expanded user without secrets', async () => {
+		const { body } = await rq.get('/comments?_expand=post.user').expect(200)
+		expect(body[0].post.user).toEqual({ id: 1, email: 'jeremy@mail.com', name: 'Jeremy' })
+	})
+
+	test('[HAPPY] user of a declared relation without secrets', async () => {
+		const db = {
+			users: [{ id: 1, email: 'jeremy@mail.com', password: 'hash' }],
+			posts: [{ id: 1, title: 'Hello', authorId: 1 }],
+		}
+		const relations = { posts: { author: { belongsTo: 'users', foreignKey: 'authorId' } } }
+		const app = inMemoryJsonServer(db, {}, { relations })
+
+		const { body } = await supertest(app)
+			.get('/posts/1?_expand=author')
+			.expect(200)
+		expect(body.author).toEqual({ id: 1, email: 'jeremy@mail.com' })
+	})
+
+	test('[HAPPY] whole db without secrets', async () => {
+		const { body } = await rq.get('/db').expect(200)
+		expect(body.users[0]).not.toHaveProperty('password')
+	})
+
+	test('[HAPPY] other resources keep their fields', async () => {
+		const { body } = await rq.get('/comments/1').expect(200)
+		expect(body).toEqual({ id: 1, text: 'First', postId: 1, userId: 1 })
+	})
+
+	test('[SAD] secret fields cannot be probed with filters', async () => {
+		// Filters on secret fields are ignored, so matching and other values give the same list
+		const queries = ['password_like=^h', 'password_like=^z', 'password=hash', 'apiKey_ne=secret']
+		for (const query of queries) {
+			const { body } = await rq.get(`/users?${query}`).expect(200)
+			expect(body).toHaveLength(1)
+		}
+	})
+
+	test('[SAD] secret fields cannot be probed with the full-text search', async () => {
+		for (const query of ['q=hash', 'q=secret', 'q=nomatch']) {
+			const { body } = await rq.get(`/users?${query}`).expect(200)
+			expect(body).toHaveLength(1)
+		}
+	})
+
+	test('[SAD] secret fields cannot be probed with sorts', async () => {
+		const app = inMemoryJsonServer({
+			users: [
+				{ id: 1, email: 'a@mail.com', password: 'b' },
+				{ id: 2, email: 'b@mail.com', password: 'a' },
+			],
+		})
+		const { body } = await supertest(app)
+			.get('/users?_sort=password,email&_order=asc,desc')
+			.expect(200)
+		expect(body.map((user: any) => user.id)).toEqual([2, 1])
+	})
+})
@@ -6,12 +6,16 @@ export const USER = { email: 'jeremy@mail.com', password: '123456', name: 'Jerem
 
 export function inMemoryJsonServer(
 	db: object = {},
-	resourceGuardMap: { [resource: string]: number } = {}
+	resourceGuardMap: ArgumentType<typeof jsonServerAuth.rewriter> = {},
+	options: ArgumentType<typeof jsonServerAuth.configure> = {}
 ): Application {
+	const { id, foreignKeySuffix } = jsonServerAuth.configure(options)
+
 	const app = jsonServer.create()
-	const router = jsonServer.router(db)
+	const router = jsonServer.router(db, { foreignKeySuffix })
 	// Must bind the router db to the app like the cli does
 	// https://github.com/typicode/json-server/blob/master/src/cli/run.js#L74
+	router['db']._.id = id
 	app['db'] = router['db']
 
 	app.use(jsonServerAuth.rewriter(resourceGuardMap))
@@ -0,0 +1,66 @@
+import * as supertest from 'supertest'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+let rq: supertest.SuperTest<supertest.Test>
+
+beforeEach(() => {
+	const db = {
+		users: [{ id: 1, email: 'ann@mail.com', password: 'hash', name: 'Ann', cityId: 1 }],
+		cities: [{ id: 1, name: 'Nashville', population: 700000, stateId: 1 }],
+		states: [{ id: 1, name: 'Tennessee', abbr: 'TN' }],
+		posts: [{ id: 1, title: 'Hello', body: 'Long text', userId: 1 }],
+		comments: [{ id: 1, text: 'Nice', postId: 1, userId: 1 }],
+	}
+	rq = supertest(inMemoryJsonServer(db))
+})
+
+describe('Sparse fieldsets', () => {
+	test('[HAPPY] keep listed fields of a list', async () => {
+		const { body } = await rq.get('/posts?_fields=id,title').expect(200)
+		expect(body).toEqual([{ id: 1, title: 'Hello' }])
+	})
+
+	test('[HAPPY] keep listed fields of expanded relations', async () => {
+		const { body } = await rq
+			.get('/users/1?_expand=city.state&_fields=id,name,city.name,city.state.abbr')
+			.expect(200)
+		expect(body).toEqual({ id: 1, name: 'Ann', city: { name: 'Nashville', state: { abbr: 'TN' } } })
+	})
+
+	test('[HAPPY] keep listed fields of embedded relations', async () => {
+		const { body } = await rq.get('/posts/1?_embed=comments&_fields=title,comments.text').expect(200)
+		expect(body).toEqual({ title: 'Hello', comments: [{ text: 'Nice' }] })
+	})
+
+	test('[HAPPY] keep a whole relation', async () => {
+		const { body } = await rq.get('/users/1?_expand=city&_fields=city').expect(200)
+		expect(body.city).toEqual({ id: 1, name: 'Nashville', population: 700000, stateId: 1 })
+	})
+
+	test('[SAD] cannot keep secret fields', async () => {
+		const { body } = await rq.get('/users?_fields=email,password').expect(200)
+		expect(body).toEqual([{ email: 'ann@mail.com' }])
+	})
+
+	test('[HAPPY] owner fields are still guarded', async () => {
+		const db = {
+			users: [{ id: 1, email: 'ann@mail.com' }],
+			posts: [{ id: 1, title: 'Mine', userId: 2 }],
+		}
+		rq = supertest(inMemoryJsonServer(db, { users: 600 }))
+		const { body: tokens } = await rq.post('/register').send(USER)
+
+		const { body } = await rq
+			.get('/posts/1?_expand=user&_fields=title,user.email')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.expect(200)
+		expect(body).toEqual({ title: 'Mine', user: { email: USER.email } })
+	})
+
+	test('[SAD] errors are not trimmed', async () => {
+		rq = supertest(inMemoryJsonServer({ posts: [] }, { posts: 600 }, { errorEnvelope: true }))
+
+		const { body } = await rq.get('/posts/1?_fields=id').expect(401)
+		expect(body.error).toMatchObject({ code: 'MISSING_AUTHORIZATION' })
+	})
+})
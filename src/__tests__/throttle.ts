@@ -0,0 +1,135 @@
+import { Application } from 'express'
+import * as supertest from 'supertest'
+import { throttleState } from '../throttle'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+let app: Application
+let rq: supertest.SuperTest<supertest.Test>
+let now: number
+let errorSpy: jest.SpyInstance
+
+const WRONG = { email: USER.email, password: 'wrong-password' }
+
+/**
+ * Fake clock, moved forward by the tests
+ */
+const wait = (seconds: number) => (now += seconds * 1000)
+
+async function failLogins(times: number, credentials = WRONG) {
+	for (let i = 0; i < times; i++) {
+		await rq
+			.post('/login')
+			.send(credentials)
+			.expect(400)
+	}
+}
+
+beforeEach(async () => {
+	now = Date.parse('2019-06-12T10:00:00Z')
+	jest.spyOn(Date, 'now').mockImplementation(() => now)
+	errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined)
+
+	const options = { loginMaxAttempts: 3, loginWindow: 60, loginLockout: 300 }
+	app = inMemoryJsonServer({ users: [] }, {}, options)
+	rq = supertest(app)
+	await rq.post('/register').send(USER)
+})
+
+afterEach(() => {
+	jest.restoreAllMocks()
+})
+
+describe('Login throttling', () => {
+	test('[SAD] lock the email after repeated failures', async () => {
+		await failLogins(3)
+
+		const res = await rq
+			.post('/login')
+			.send(USER)
+			.expect(429, /too many/i)
+
+		expect(res.header['retry-after']).toBe('300')
+		expect(errorSpy.mock.calls.some(([line]) => line.includes('Login locked'))).toBe(true)
+	})
+
+	test('[HAPPY] unlock after the lockout', async () => {
+		await failLogins(3)
+
+		wait(200)
+		const res = await rq.post('/login').send(USER)
+		expect(res.status).toBe(429)
+		expect(res.header['retry-after']).toBe('100')
+
+		wait(100)
+		await rq
+			.post('/login')
+			.send(USER)
+			.expect(200)
+	})
+
+	test('[HAPPY] failures leave the sliding window', async () => {
+		await failLogins(2)
+		wait(61)
+		await failLogins(2)
+
+		await rq
+			.post('/login')
+			.send(USER)
+			.expect(200)
+	})
+
+	test('[HAPPY] forget old failures and ended lockouts', async () => {
+		const { failures, lockedUntil } = throttleState(app.db!)
+		await failLogins(3)
+		expect(lockedUntil.size).toBe(1)
+
+		wait(301)
+		await failLogins(1, { email: 'other@mail.com', password: 'wrong-password' })
+		expect(lockedUntil.size).toBe(0)
+		expect([...failures.values()]).toEqual([[now], [now]])
+
+		wait(61)
+		await rq
+			.post('/login')
+			.send(USER)
+			.expect(200)
+		expect(failures.size).toBe(0)
+	})
+
+	test('[HAPPY] successful login clears the failures', async () => {
+		await failLogins(2)
+		await rq.post('/login').send(USER).expect(200)
+		await failLogins(2)
+
+		await rq
+			.post('/login')
+			.send(USER)
+			.expect(200)
+	})
+
+	test('[SAD] lock the IP address across emails', async () => {
+		rq = supertest(inMemoryJsonServer({ users: [] }, {}, { loginMaxAttemptsPerIp: 4 }))
+		await rq.post('/register').send(USER)
+
+		for (const email of ['a@mail.com', 'b@mail.com', 'c@mail.com', 'd@mail.com']) {
+			await failLogins(1, { email, password: 'wrong-password' })
+		}
+
+		await rq
+			.post('/login')
+			.send(USER)
+			.expect(429)
+	})
+
+	test('[HAPPY] no limit with 0', async () => {
+		const options = { loginMaxAttempts: 0, loginMaxAttemptsPerIp: 0 }
+		rq = supertest(inMemoryJsonServer({ users: [] }, {}, options))
+		await rq.post('/register').send(USER)
+
+		await failLogins(21)
+		await rq
+			.post('/login')
+			.send(USER)
+			.expect(200)
+	})
+})
@@ -0,0 +1,128 @@
+import * as crypto from 'crypto'
+import { unlinkSync, writeFileSync } from 'fs'
+import * as jwt from 'jsonwebtoken'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import * as supertest from 'supertest'
+import { JwtAlgorithm } from '../options'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+const keyPath = (algorithm: string, use: string) => join(tmpdir(), `nss-json-server-${algorithm}-${use}.pem`)
+
+type KeyPair = { publicKey: string; privateKey: string }
+
+function generateKeys(type: 'rsa' | 'ec', options: object): KeyPair {
+	// Our node typings wrongly require a cipher for PEM private keys
+	return (crypto as any).generateKeyPairSync(type, {
+		...options,
+		publicKeyEncoding: { type: 'spki', format: 'pem' },
+		privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+	})
+}
+
+const pemToDer = (pem: string) => Buffer.from(pem.replace(/-----[^-]+-----|\s/g, ''), 'base64')
+
+const fromBase64url = (value: string) =>
+	Buffer.from(value.replace(/-/g, '+').replace(/_/g, '/'), 'base64')
+
+const db = () => ({ users: [], messages: [{ id: 1, text: 'hello', userId: 1 }] })
+const guards = { messages: 660 }
+
+afterAll(() => {
+	for (const algorithm of ['RS256', 'ES256']) {
+		unlinkSync(keyPath(algorithm, 'private'))
+		unlinkSync(keyPath(algorithm, 'public'))
+	}
+})
+
+describe('Symmetric signing', () => {
+	test('[HAPPY] sign with configured secret, issuer and audience', async () => {
+		const app = inMemoryJsonServer(db(), guards, {
+			jwtSecret: 'my-project-secret',
+			jwtIssuer: 'my-project',
+			jwtAudience: 'students',
+		})
+		const { body } = await supertest(app)
+			.post('/register')
+			.send(USER)
+
+		const claims = jwt.verify(body.accessToken, 'my-project-secret') as any
+		expect(claims).toMatchObject({ iss: 'my-project', aud: 'students', email: USER.email })
+	})
+
+	test('[SAD] reject tokens signed by another project', async () => {
+		const otherApp = inMemoryJsonServer(db(), guards, { jwtSecret: 'other-project-secret' })
+		const { body } = await supertest(otherApp)
+			.post('/register')
+			.send(USER)
+
+		const app = inMemoryJsonServer(db(), guards, { jwtSecret: 'my-project-secret' })
+		await supertest(app)
+			.get('/messages')
+			.set({ Authorization: `Bearer ${body.accessToken}` })
+			.expect(401, /invalid signature/)
+	})
+
+	test('[SAD] reject tokens with wrong audience', async () => {
+		const app = inMemoryJsonServer(db(), guards, { jwtAudience: 'students' })
+		const rq = supertest(app)
+		const { body } = await rq.post('/register').send(USER)
+
+		// Reconfigure the audience of the running server
+		inMemoryJsonServer(db(), guards, { jwtAudience: 'teachers' })
+		await rq
+			.get('/messages')
+			.set({ Authorization: `Bearer ${body.accessToken}` })
+			.expect(401, /audience invalid/)
+	})
+
+	test('[SAD] no public key to publish', () => {
+		const app = inMemoryJsonServer(db(), guards)
+		return supertest(app)
+			.get('/.well-known/jwks.json')
+			.expect(404)
+	})
+})
+
+describe('Asymmetric signing', () => {
+	test.each([
+		['RS256', generateKeys('rsa', { modulusLength: 2048 })],
+		['ES256', generateKeys('ec', { namedCurve: 'P-256' })],
+	] as Array<[JwtAlgorithm, KeyPair]>)('[HAPPY] sign with %s and publish the public key', async (algorithm, { publicKey, privateKey }) => {
+		writeFileSync(keyPath(algorithm, 'private'), privateKey)
+		writeFileSync(keyPath(algorithm, 'public'), publicKey)
+
+		const app = inMemoryJsonServer(db(), guards, {
+			jwtAlgorithm: algorithm,
+			jwtPrivateKey: keyPath(algorithm, 'private'),
+			jwtPublicKey: keyPath(algorithm, 'public'),
+		})
+		const rq = supertest(app)
+
+		const { body } = await rq.post('/register').send(USER)
+		expect(jwt.decode(body.accessToken, { complete: true })).toMatchObject({ header: { alg: algorithm } })
+
+		await rq
+			.get('/messages')
+			.set({ Authorization: `Bearer ${body.accessToken}` })
+			.expect(200)
+
+		expect(() => jwt.verify(body.accessToken, publicKey)).not.toThrow()
+
+		const { body: jwks } = await rq.get('/.well-known/jwks.json').expect(200)
+		expect(jwks.keys).toHaveLength(1)
+		expect(jwks.keys[0]).toMatchObject({ alg: algorithm, use: 'sig' })
+
+		// The published key must be the public key, found in its DER encoding
+		const der = pemToDer(publicKey)
+		const [jwk] = jwks.keys
+
+		if (jwk.kty === 'RSA') {
+			expect(der.includes(fromBase64url(jwk.n))).toBe(true)
+			expect(jwk.e).toBe('AQAB') // 65537
+		} else {
+			// Uncompressed point at the end of the key: 0x04 | x | y
+			expect(der.slice(-64)).toEqual(Buffer.concat([fromBase64url(jwk.x), fromBase64url(jwk.y)]))
+		}
+	})
+})
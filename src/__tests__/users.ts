@@ -112,7 +112,7 @@ describe('Update user', () => {
 
 	test('[HAPPY] modify and hash new password', async () => {
 		const password = '965dsd3si'
-		const { body, status } = await rq.patch('/users/1').send({ password })
+		const { body, status } = await rq.patch('/users/1').send({ password, currentPassword: USER.password })
 
 		expect(status).toBe(200)
 		expect(body.password).not.toBe(password)
@@ -132,3 +132,354 @@ describe('Update user', () => {
 			.expect(400, /required/i)
 	})
 })
+
+describe('Refresh and logout', () => {
+	let tokens: { accessToken: string; refreshToken: string }
+
+	beforeEach(async () => {
+		const { body } = await rq.post('/register').send({ email: 'albert@mail.com', password: 'azerty123' })
+		tokens = { accessToken: body.accessToken, refreshToken: body.refreshToken }
+	})
+
+	test('[HAPPY] Login returns a refresh token', () => {
+		return rq
+			.post('/login')
+			.send({ email: 'albert@mail.com', password: 'azerty123' })
+			.expect(200, /"refreshToken": ".*"/)
+	})
+
+	test('[HAPPY] Exchange refresh token for new tokens', async () => {
+		const { body, status } = await rq.post('/token/refresh').send({ refreshToken: tokens.refreshToken })
+
+		expect(status).toBe(200)
+		expect(body.accessToken).toBeTruthy()
+		expect(body.refreshToken).not.toBe(tokens.refreshToken)
+	})
+
+	test('[SAD] Refresh token is rotated', async () => {
+		await rq.post('/token/refresh').send({ refreshToken: tokens.refreshToken }).expect(200)
+		await rq.post('/token/refresh').send({ refreshToken: tokens.refreshToken }).expect(401, /revoked/)
+	})
+
+	test('[SAD] Access token cannot be used as refresh token', () => {
+		return rq
+			.post('/token/refresh')
+			.send({ refreshToken: tokens.accessToken })
+			.expect(401, /refresh token/)
+	})
+
+	test('[SAD] Refresh token cannot be used as access token', () => {
+		return rq
+			.post('/logout')
+			.set({ Authorization: `Bearer ${tokens.refreshToken}` })
+			.expect(401, /access token/)
+	})
+
+	test('[HAPPY] Logout revokes access and refresh tokens', async () => {
+		const bearer = { Authorization: `Bearer ${tokens.accessToken}` }
+
+		await rq
+			.post('/logout')
+			.set(bearer)
+			.send({ refreshToken: tokens.refreshToken })
+			.expect(204)
+
+		await rq
+			.post('/logout')
+			.set(bearer)
+			.expect(401, /revoked/)
+
+		await rq.post('/token/refresh').send({ refreshToken: tokens.refreshToken }).expect(401, /revoked/)
+	})
+
+	test('[SAD] revoked tokens are not served', async () => {
+		await rq
+			.post('/logout')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.expect(204)
+
+		await rq.get('/_revokedTokens').expect(404)
+		await rq.post('/_revokedTokens').send({ jti: 'forged' }).expect(404)
+		const { body } = await rq.get('/db').expect(200)
+		expect(body).not.toHaveProperty('_revokedTokens')
+	})
+})
+
+describe('Current user', () => {
+	let bearer: { Authorization: string }
+
+	beforeEach(async () => {
+		const { body } = await rq
+			.post('/register')
+			.send({ email: 'albert@mail.com', password: 'azerty123', name: 'Albert' })
+		bearer = { Authorization: `Bearer ${body.accessToken}` }
+	})
+
+	test('[HAPPY] get profile without password', async () => {
+		const { body } = await rq
+			.get('/me')
+			.set(bearer)
+			.expect(200)
+
+		expect(body).toMatchObject({ email: 'albert@mail.com', name: 'Albert' })
+		expect(body).not.toHaveProperty('password')
+	})
+
+	test('[SAD] get profile without token', () => {
+		return rq.get('/me').expect(401)
+	})
+
+	test('[HAPPY] update profile and hash new password', async () => {
+		const { body } = await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ name: 'Al', password: 'qwerty456', currentPassword: 'azerty123' })
+			.expect(200)
+
+		expect(body).toMatchObject({ name: 'Al' })
+		expect(body).not.toHaveProperty('password')
+
+		await rq
+			.post('/login')
+			.send({ email: 'albert@mail.com', password: 'qwerty456' })
+			.expect(200)
+	})
+
+	test('[SAD] update profile with wrong input', async () => {
+		await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ email: 'albert@' })
+			.expect(400, /email format/i)
+
+		await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ role: 'admin' })
+			.expect(403, /admins/)
+	})
+
+	test('[SAD] update profile with email of another user', async () => {
+		await rq.post('/register').send({ email: 'bertha@mail.com', password: 'azerty123' })
+
+		return rq
+			.patch('/me')
+			.set(bearer)
+			.send({ email: 'bertha@mail.com' })
+			.expect(400, /already/i)
+	})
+
+	test('[SAD] update profile with fields protected by policies', async () => {
+		const guards = { users: { guard: 600, fields: { credits: 'adminOnly' as const } } }
+		rq = supertest(inMemoryJsonServer({ users: [] }, guards))
+		const { body: tokens } = await rq.post('/register').send(USER)
+
+		await rq
+			.patch('/me')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.send({ credits: 1000 })
+			.expect(403, /Forbidden update on: credits/)
+
+		const { body } = await rq
+			.get('/me')
+			.set({ Authorization: `Bearer ${tokens.accessToken}` })
+			.expect(200)
+		expect(body).not.toHaveProperty('credits')
+	})
+
+	test('[HAPPY] delete account and revoke token', async () => {
+		await rq
+			.delete('/me')
+			.set(bearer)
+			.expect(204)
+
+		await rq
+			.post('/login')
+			.send({ email: 'albert@mail.com', password: 'azerty123' })
+			.expect(400)
+
+		await rq
+			.get('/me')
+			.set(bearer)
+			.expect(401, /revoked/)
+	})
+
+	test('[HAPPY] delete account and revoke the tokens of every session', async () => {
+		rq = supertest(inMemoryJsonServer({ users: [], notes: [] }, { notes: 660 }))
+		await rq.post('/register').send(USER)
+		const { body: first } = await rq.post('/login').send(USER)
+		const { body: second } = await rq.post('/login').send(USER)
+
+		await rq
+			.delete('/me')
+			.set({ Authorization: `Bearer ${first.accessToken}` })
+			.expect(204)
+
+		await rq
+			.post('/notes')
+			.set({ Authorization: `Bearer ${second.accessToken}` })
+			.send({ text: 'still there?' })
+			.expect(401, /revoked/)
+		await rq
+			.post('/token/refresh')
+			.send({ refreshToken: second.refreshToken })
+			.expect(401)
+	})
+})
+
+describe('Credential changes', () => {
+	let id: number
+	let bearer: { Authorization: string }
+
+	beforeEach(async () => {
+		const { body } = await rq.post('/register').send({ email: 'albert@mail.com', password: 'azerty123' })
+		id = body.user.id
+		bearer = { Authorization: `Bearer ${body.accessToken}` }
+	})
+
+	test('[HAPPY] new email returns fresh tokens and revokes the old ones', async () => {
+		const { body } = await rq
+			.patch(`/users/${id}`)
+			.set(bearer)
+			.send({ email: 'al@mail.com' })
+			.expect(200)
+
+		expect(body.accessToken).toBeTruthy()
+		expect(body.refreshToken).toBeTruthy()
+
+		await rq
+			.get('/me')
+			.set(bearer)
+			.expect(401, /revoked/)
+
+		const { body: me } = await rq
+			.get('/me')
+			.set({ Authorization: `Bearer ${body.accessToken}` })
+			.expect(200)
+		expect(me.email).toBe('al@mail.com')
+	})
+
+	test('[SAD] new email of another user returns no tokens', async () => {
+		const { body: other } = await rq
+			.post('/register')
+			.send({ email: 'bertha@mail.com', password: 'azerty123' })
+
+		const { body } = await rq
+			.patch(`/users/${id}`)
+			.set({ Authorization: `Bearer ${other.accessToken}` })
+			.send({ email: 'al@mail.com' })
+			.expect(200)
+		expect(body).not.toHaveProperty('accessToken')
+		expect(body).not.toHaveProperty('refreshToken')
+
+		const { body: anonymous } = await rq
+			.patch(`/users/${id}`)
+			.send({ email: 'albert@mail.com' })
+			.expect(200)
+		expect(anonymous).not.toHaveProperty('accessToken')
+		expect(anonymous).not.toHaveProperty('refreshToken')
+
+		await rq
+			.get('/me')
+			.set(bearer)
+			.expect(401, /revoked/)
+	})
+
+	test('[SAD] new password requires the current one', async () => {
+		await rq
+			.patch(`/users/${id}`)
+			.set(bearer)
+			.send({ password: 'qwerty456' })
+			.expect(400, /current password is required/i)
+
+		await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ password: 'qwerty456', currentPassword: 'wrong' })
+			.expect(400, /incorrect current password/i)
+	})
+
+	test('[SAD] only the user can try their current password', async () => {
+		const { body: other } = await rq
+			.post('/register')
+			.send({ email: 'bertha@mail.com', password: 'azerty123' })
+
+		for (const currentPassword of ['azerty123', 'wrong', undefined]) {
+			const body = { password: 'qwerty456', currentPassword }
+			await rq
+				.patch(`/users/${id}`)
+				.send(body)
+				.expect(401)
+			await rq
+				.patch(`/users/${id}`)
+				.set({ Authorization: `Bearer ${other.accessToken}` })
+				.send(body)
+				.expect(403)
+		}
+
+		await rq
+			.post('/login')
+			.send({ email: 'albert@mail.com', password: 'azerty123' })
+			.expect(200)
+	})
+
+	test('[SAD] wrong current passwords are throttled', async () => {
+		for (let i = 0; i < 5; i++) {
+			await rq
+				.patch('/me')
+				.set(bearer)
+				.send({ password: 'qwerty456', currentPassword: 'wrong' })
+				.expect(400, /incorrect current password/i)
+		}
+
+		await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ password: 'qwerty456', currentPassword: 'azerty123' })
+			.expect(429)
+	})
+
+	test('[HAPPY] new password with the current one', async () => {
+		const { body } = await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ password: 'qwerty456', currentPassword: 'azerty123' })
+			.expect(200)
+
+		expect(body.accessToken).toBeTruthy()
+		expect(body).not.toHaveProperty('currentPassword')
+
+		await rq
+			.get('/me')
+			.set(bearer)
+			.expect(401, /revoked/)
+	})
+
+	test('[HAPPY] replacement with the same password keeps tokens', async () => {
+		const { body } = await rq
+			.put(`/users/${id}`)
+			.set(bearer)
+			.send({ email: 'albert@mail.com', password: 'azerty123', name: 'Albert' })
+			.expect(200)
+
+		expect(body).not.toHaveProperty('accessToken')
+
+		await rq
+			.get('/me')
+			.set(bearer)
+			.expect(200)
+	})
+
+	test('[SAD] token version cannot be set', async () => {
+		await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ tokenVersion: 3 })
+			.expect(200)
+
+		await rq
+			.get('/me')
+			.set(bearer)
+			.expect(200)
+	})
+})
@@ -0,0 +1,143 @@
+import { Application } from 'express'
+import * as supertest from 'supertest'
+import { inMemoryJsonServer, USER } from './shared/tools'
+
+let app: Application
+let rq: supertest.SuperTest<supertest.Test>
+let logSpy: jest.SpyInstance
+let bearer: { Authorization: string }
+
+const db = () => ({ users: [], posts: [{ id: 1, title: 'first', userId: 1 }] })
+const guards = { posts: { guard: 644, write: 'verified' } }
+
+/**
+ * Path of the verification link in the last email of the outbox
+ */
+function verifyLink(): string {
+	const [mail] = (app.db!.get('_outbox').value() || []).slice(-1)
+	return mail.text.match(/https?:\/\/[^/]+(\S+)/)[1]
+}
+
+beforeEach(async () => {
+	logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined)
+	app = inMemoryJsonServer(db(), guards, { verifyEmail: true })
+	rq = supertest(app)
+
+	const { body } = await rq.post('/register').send({ ...USER, verified: true })
+	bearer = { Authorization: `Bearer ${body.accessToken}` }
+})
+
+afterEach(() => {
+	logSpy.mockRestore()
+})
+
+describe('Registration', () => {
+	test('[HAPPY] store an unverified user and send a link', async () => {
+		const { body } = await rq
+			.get('/me')
+			.set(bearer)
+			.expect(200)
+
+		expect(body.verified).toBe(false)
+		expect(verifyLink()).toMatch(/^\/verify\?token=/)
+	})
+
+	test('[HAPPY] verify with the link', async () => {
+		await rq.get(verifyLink()).expect(200, /"verified": true/)
+
+		const { body } = await rq.get('/me').set(bearer)
+		expect(body.verified).toBe(true)
+	})
+
+	test('[SAD] link is single-use', async () => {
+		const link = verifyLink()
+
+		await rq.get(link).expect(200)
+		await rq.get(link).expect(401, /revoked/)
+	})
+
+	test('[SAD] token is required', () => {
+		return rq.get('/verify').expect(400, /required/)
+	})
+})
+
+describe('Verified guard', () => {
+	test('[SAD] unverified users cannot write', async () => {
+		await rq
+			.post('/posts')
+			.set(bearer)
+			.send({ title: 'second' })
+			.expect(403, /verified email/)
+
+		await rq.get('/posts').expect(200)
+	})
+
+	test('[HAPPY] verified users can write', async () => {
+		await rq.get(verifyLink()).expect(200)
+
+		return rq
+			.post('/posts')
+			.set(bearer)
+			.send({ title: 'second' })
+			.expect(201)
+	})
+
+	test('[SAD] users cannot verify themselves', async () => {
+		await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ verified: true })
+			.expect(200, /"verified": false/)
+	})
+
+	test('[HAPPY] same as logged without the option', async () => {
+		rq = supertest(inMemoryJsonServer(db(), guards))
+		const { body } = await rq.post('/register').send(USER)
+
+		return rq
+			.post('/posts')
+			.set({ Authorization: `Bearer ${body.accessToken}` })
+			.send({ title: 'second' })
+			.expect(201)
+	})
+})
+
+describe('Email change', () => {
+	test('[HAPPY] new email must be verified again', async () => {
+		await rq.get(verifyLink()).expect(200)
+		const oldLink = verifyLink()
+
+		const { body } = await rq
+			.patch('/me')
+			.set(bearer)
+			.send({ email: 'albert@mail.com' })
+			.expect(200)
+
+		expect(body.verified).toBe(false)
+		expect(verifyLink()).not.toBe(oldLink)
+
+		await rq.get(verifyLink()).expect(200)
+	})
+
+	test('[SAD] rejected email change sends nothing and keeps the tokens', async () => {
+		app = inMemoryJsonServer(db(), { ...guards, users: 600 }, { verifyEmail: true })
+		rq = supertest(app)
+		const { body: user } = await rq.post('/register').send(USER)
+		const { body: other } = await rq
+			.post('/register')
+			.send({ email: 'bertha@mail.com', password: 'azerty123' })
+		const outbox = app.db!.get('_outbox').size().value()
+
+		await rq
+			.patch(`/users/${user.user.id}`)
+			.set({ Authorization: `Bearer ${other.accessToken}` })
+			.send({ email: 'evil@mail.com' })
+			.expect(403)
+
+		expect(app.db!.get('_outbox').size().value()).toBe(outbox)
+		await rq
+			.get('/me')
+			.set({ Authorization: `Bearer ${user.accessToken}` })
+			.expect(200)
+	})
+})
@@ -21,6 +21,36 @@ const argv = yargs
         watch: { alias: 'w', description: 'Watch file(s)' },
         routes: { alias: 'r', description: 'Path to routes file' },
         expires: { alias: 'X', description: 'Token expiration time (e.g. 7h)' },
+        'refresh-expires': { description: 'Refresh token expiration time (e.g. 30d)' },
+        'reset-expires': { description: 'Password reset token expiration time (e.g. 15m)' },
+        'verify-email': { description: 'Send a verification link to new users' },
+        'login-max-attempts': {
+            description: 'Failed logins per email before lockout (0 to disable)',
+            default: 5,
+        },
+        'login-max-attempts-per-ip': {
+            description: 'Failed logins per IP address before lockout (0 to disable)',
+            default: 20,
+        },
+        'login-window': { description: 'Window counting failed logins (seconds)', default: 900 },
+        'login-lockout': { description: 'Lockout duration (seconds)', default: 900 },
+        'jwt-secret': { description: 'Secret used to sign tokens with HS256' },
+        'jwt-algorithm': {
+            description: 'Token signing algorithm',
+            choices: ['HS256', 'RS256', 'ES256'],
+            default: 'HS256',
+        },
+        'jwt-private-key': { description: 'Path to the PEM private key (RS256, ES256)' },
+        'jwt-public-key': { description: 'Path to the PEM public key (RS256, ES256)' },
+        'jwt-issuer': { description: 'Token issuer (iss claim)' },
+        'jwt-audience': { description: 'Token audience (aud claim)' },
+        'secret-fields': {
+            array: true,
+            description: 'User fields removed from responses, in addition to password',
+        },
+        relations: { description: 'Path to the relations file (e.g. relations.json)' },
+        'max-expand-depth': { description: 'Maximum levels of _expand and _embed paths', default: 5 },
+        'max-expand-breadth': { description: 'Maximum relations expanded per level', default: 10 },
         middlewares: { alias: 'm', array: true, description: 'Paths to middleware files' },
         static: { alias: 's', description: 'Set static files directory' },
         'read-only': { alias: 'ro', description: 'Allow only GET requests' },
@@ -35,11 +65,19 @@ const argv = yargs
             default: 'Id',
         },
         quiet: { alias: 'q', description: 'Suppress log messages from output' },
+        'log-level': {
+            description: 'Minimum level of log messages (error with --quiet)',
+            choices: ['debug', 'info', 'warn', 'error'],
+        },
+        'log-format': { description: 'Format of log messages', choices: ['text', 'json'], default: 'text' },
+        'error-envelope': { description: 'Respond with { error: { code, message } } objects' },
         config: { alias: 'c', description: 'Path to config file', default: 'json-server.json' },
     })
     .boolean('watch')
     .boolean('read-only')
     .boolean('quiet')
+    .boolean('error-envelope')
+    .boolean('verify-email')
     .boolean('no-cors')
     .boolean('no-gzip')
     .string('routes')
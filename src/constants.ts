@@ -1,11 +1,28 @@
 import * as yargs from 'yargs'
 
 const expires = yargs.argv.X
+const refreshExpires = yargs.argv.refreshExpires
+const resetExpires = yargs.argv.resetExpires
 
 export const JWT_SECRET_KEY = 'json-server-auth-123456'
 
 export const JWT_EXPIRES_IN = <string>expires || '1h'
 
+export const JWT_REFRESH_EXPIRES_IN = <string>refreshExpires || '7d'
+
+export const JWT_RESET_EXPIRES_IN = <string>resetExpires || '1h'
+
+export const JWT_VERIFY_EXPIRES_IN = '7d'
+
+export const REVOKED_TOKENS_COLLECTION = '_revokedTokens'
+
+export const OUTBOX_COLLECTION = '_outbox'
+
+/** Collections of the db that json-server must not serve */
+export const INTERNAL_COLLECTIONS = [REVOKED_TOKENS_COLLECTION, OUTBOX_COLLECTION]
+
+export const ADMIN_ROLE = 'admin'
+
 export const SALT_LENGTH = 10
 
 export const EMAIL_REGEX = new RegExp(
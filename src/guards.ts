@@ -1,46 +1,268 @@
-import { RequestHandler, Router } from 'express'
+import { Request, RequestHandler, Response, Router } from 'express'
 import * as jwt from 'jsonwebtoken'
 import * as jsonServer from 'json-server'
-import { stringify } from 'querystring'
-import { JWT_SECRET_KEY } from './constants'
-import { bodyParsingHandler, errorHandler, goNext } from './shared-middlewares'
+import * as pluralize from 'pluralize'
+import { ADMIN_ROLE } from './constants'
+import { requestLogger } from './logger'
+import { options } from './options'
+import { EXPANDABLE_METHODS, relatedCollection } from './relations'
+import {
+    bodyParsingHandler,
+    dropFieldQueries,
+    errorHandler,
+    ErrorCode,
+    goNext,
+    requestedResource,
+    sendError,
+    transformJsonResponse,
+} from './shared-middlewares'
+import { tokenErrorCode, verifyToken } from './tokens'
+
+/**
+ * Access required by a resource rule:
+ * 'public', 'logged', 'verified', 'owner', or 'role:<name>' (several roles separated by commas)
+ */
+export type Access = string
+
+/**
+ * Group of users sharing entities, in the object form of a resource rule
+ * @example
+ * { "chores": { "guard": 600, "group": { "resource": "households", "members": "memberIds" } } }
+ */
+export interface GroupRule {
+    /** Collection of the groups */
+    resource: string
+    /** Property of the entity referencing the group, defaults to <group>Id */
+    foreignKey?: string
+    /** Array property of the group listing the ids of its members */
+    members: string
+}
+
+/**
+ * Field policies, in the object form of a resource rule:
+ * - readOnly: cannot be written by clients (e.g. userId, createdAt)
+ * - writeOnce: can be set once, then cannot be changed
+ * - ownerOnly: hidden from users who do not own the entity
+ * - adminOnly: can only be written by admins
+ * @example
+ * { "posts": { "guard": 644, "fields": { "userId": "readOnly", "notes": ["ownerOnly", "adminOnly"] } } }
+ */
+export type FieldPolicy = 'readOnly' | 'writeOnce' | 'ownerOnly' | 'adminOnly'
+
+const FIELD_POLICIES: FieldPolicy[] = ['readOnly', 'writeOnce', 'ownerOnly', 'adminOnly']
+
+/**
+ * Resource rule in its object form, accepted next to guard codes in routes.json
+ * @example
+ * { "products": { "read": "public", "write": "role:admin" } }
+ * { "orders": { "guard": 640, "delete": "role:admin,manager" } }
+ * { "posts": { "guard": 640, "owner": "authorId" } }
+ * { "lists": { "guard": 600, "members": "memberIds" } }
+ */
+export interface ResourceRule {
+    guard?: number
+    /** Property referencing the owner id, defaults to userId (id for users) */
+    owner?: string
+    /** Array property listing the ids of the users sharing the entity */
+    members?: string
+    /** Group the entity belongs to, shared by all the members of the group */
+    group?: GroupRule
+    /** Read and write policies of specific fields */
+    fields?: { [field: string]: FieldPolicy | FieldPolicy[] }
+    /** Access for GET requests */
+    read?: Access
+    /** Access for POST, PUT, PATCH and DELETE requests */
+    write?: Access
+    /** Access for a specific method, takes precedence over read and write */
+    get?: Access
+    post?: Access
+    put?: Access
+    patch?: Access
+    delete?: Access
+}
+
+const ACCESS_KEYS = ['read', 'write', 'get', 'post', 'put', 'patch', 'delete']
+
+export type GuardRules = { [resource: string]: number | string | ResourceRule }
+
+type Claims = Express.Request['claims']
+
+/**
+ * Rules of the guarded resources, registered when parsing the guard rules
+ */
+const resourceRules: { [resource: string]: ResourceRule } = {}
+
+/**
+ * Check if the user has a given role
+ */
+export function hasRole(claims: Express.Request['claims'], role: string): boolean {
+    return !!claims && !!claims.roles && claims.roles.includes(role)
+}
+
+/**
+ * Reject the request, and log the denial with the resource, the method and the user
+ */
+function deny(
+    req: Request,
+    res: Response,
+    status: 401 | 403,
+    code: ErrorCode,
+    reason: string,
+    details?: object
+) {
+    const { resource } = requestedResource(req)
+    const userId = req.claims && req.claims.sub
+    const fields = { status, resource, method: req.method, userId, code, reason }
+
+    requestLogger(req).info('Access denied', fields)
+    sendError(res, status, code, reason, details)
+}
 
 /**
  * Logged Guard.
- * Check JWT.
+ * Check JWT and reject revoked tokens.
  */
-const loggedOnly: RequestHandler = (req, res, next) => {
+export const loggedOnly: RequestHandler = (req, res, next) => {
     const { authorization } = req.headers
+    const { db } = req.app
 
     if (!authorization) {
-        res.status(401).jsonp('Missing authorization header')
+        deny(req, res, 401, 'MISSING_AUTHORIZATION', 'Missing authorization header')
         return
     }
 
     const [scheme, token] = authorization.split(' ')
 
     if (scheme !== 'Bearer') {
-        res.status(401).jsonp('Incorrect authorization scheme')
+        deny(req, res, 401, 'INVALID_AUTHORIZATION_SCHEME', 'Incorrect authorization scheme')
         return
     }
 
     if (!token) {
-        res.status(401).jsonp('Missing token')
+        deny(req, res, 401, 'MISSING_TOKEN', 'Missing token')
         return
     }
 
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
     try {
-        jwt.verify(token, JWT_SECRET_KEY)
-        req.claims = jwt.decode(token) as any
+        req.claims = verifyToken(token, 'access', db)
         next()
     } catch (err) {
-        res.status(401).jsonp((err as jwt.JsonWebTokenError).message)
+        deny(req, res, 401, tokenErrorCode(err), (err as jwt.JsonWebTokenError).message)
+    }
+}
+
+/**
+ * Claims of a valid token, if any, without rejecting the request
+ */
+export function optionalClaims(req: Request): Claims {
+    const { authorization } = req.headers
+    const { db } = req.app
+    const [scheme, token] = (authorization || '').split(' ')
+
+    if (scheme !== 'Bearer' || !token || db == null) return undefined
+
+    try {
+        return verifyToken(token, 'access', db)
+    } catch (err) {
+        return undefined
     }
 }
 
+/**
+ * Property referencing the owner id (e.g. userId or user_id)
+ */
+function ownerKey(): string {
+    return `user${options.foreignKeySuffix}`
+}
+
+/**
+ * Property of the resource referencing the owner id:
+ * the one configured for the resource, the user id itself for users, userId for others.
+ */
+function ownerField(resource: string): string {
+    const rule = resourceRules[resource]
+
+    if (rule && rule.owner) return rule.owner
+
+    return resource === 'users' ? options.id : ownerKey()
+}
+
+/**
+ * Check if the user owns the entity
+ */
+function isOwner(resource: string, entity: any, userId: string): boolean {
+    return String(entity[ownerField(resource)]) === userId
+}
+
+/**
+ * Check if an id is in an array property (a single id is accepted too)
+ */
+function includesId(ids: any, userId: string): boolean {
+    return ([] as any[]).concat(ids == null ? [] : ids).some((id) => String(id) === userId)
+}
+
+/**
+ * Property of the resource referencing its group (e.g. householdId)
+ */
+function groupKey(group: GroupRule): string {
+    return group.foreignKey || `${pluralize.singular(group.resource)}${options.foreignKeySuffix}`
+}
+
+/**
+ * Check if the user is listed in the members of a group
+ */
+function isGroupMember(db: Database, group: GroupRule, groupId: any, userId: string): boolean {
+    // prettier-ignore
+    const groupEntity = groupId == null ? null : db.get(group.resource).getById(groupId).value()
+    return !!groupEntity && includesId(groupEntity[group.members], userId)
+}
+
+/**
+ * Check if the user owns the entity, shares it,
+ * or belongs to the group of the entity.
+ */
+function hasAccess(db: Database, resource: string, entity: any, userId: string): boolean {
+    const rule = resourceRules[resource] || {}
+
+    return (
+        isOwner(resource, entity, userId) ||
+        (!!rule.members && includesId(entity[rule.members], userId)) ||
+        (!!rule.group && isGroupMember(db, rule.group, entity[groupKey(rule.group)], userId))
+    )
+}
+
+/**
+ * Keep numeric ids as numbers, like json-server does
+ */
+function parseId(id: string): number | string {
+    return /^\d+$/.test(id) ? parseInt(id, 10) : id
+}
+
+/**
+ * Restrict a json-server list request to the entities with the given ids.
+ * json-server keeps `_like` filters even when no entity has the property,
+ * and applies them before sorting and paginating,
+ * so other query params and X-Total-Count work on the allowed entities only.
+ */
+function restrictToIds(req: Request, ids: string[]) {
+    const key = `${options.id}_like`
+    // Keep the id filter of the request, if any
+    const patterns: string[] = [].concat(req.query[key] || [])
+    const allowedIds = patterns.length
+        ? ids.filter((id) => patterns.some((pattern) => new RegExp(pattern, 'i').test(id)))
+        : ids
+    const escapedIds = allowedIds.map((id) => id.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+
+    req.query[key] = escapedIds.length ? `^(${escapedIds.join('|')})$` : '^$'
+}
+
 /**
  * Owner Guard.
- * Checking userId reference in the request or the resource.
+ * Checking owner reference (userId by default) in the request or the resource.
  * Inherits from logged guard.
  */
 const privateOnly: RequestHandler = (req, res, next) => {
@@ -49,7 +271,7 @@ const privateOnly: RequestHandler = (req, res, next) => {
         const { authorization } = req.headers
 
         if (!authorization) {
-            res.status(401).jsonp('Missing authorization header')
+            deny(req, res, 401, 'MISSING_AUTHORIZATION', 'Missing authorization header')
             return
         }
 
@@ -57,28 +279,62 @@ const privateOnly: RequestHandler = (req, res, next) => {
             throw Error('You must bind the router db to the app')
         }
 
-        // TODO: handle query params instead of removing them
-        const path = req.url.replace(`?${stringify(req.query)}`, '')
-        const [, mod, resource, id] = path.split('/')
+        const [, mod, resource, id] = req.path.split('/')
+        const { sub } = req.claims!
+
+        const isAdmin = hasRole(req.claims, ADMIN_ROLE)
+        const group = resourceRules[resource] && resourceRules[resource].group
+
+        // Entities can only be moved to a group the user belongs to
+        if (group && !isAdmin && req.body && groupKey(group) in req.body) {
+            if (!isGroupMember(db, group, req.body[groupKey(group)], sub)) {
+                deny(
+                    req,
+                    res,
+                    403,
+                    'NOT_GROUP_MEMBER',
+                    'Private resource access: user must be a member of the referenced group'
+                )
+                return
+            }
+        }
 
         // Creation and replacement
         // check userId on the request body
         if (req.method === 'POST' || req.method === 'PUT') {
-            // TODO: use foreignKeySuffix instead of assuming the default "Id"
             const isUserResource = resource === 'users'
+            const owner = ownerField(resource)
+            // prettier-ignore
+            const entity = req.method === 'PUT' && id ? db.get(resource).getById(id).value() : null
 
-            if (!isUserResource) {
-                try {
-                    req.body.userId = parseInt(req.claims!.sub, 10)
-                } catch (err) {
-                    res.status(401).jsonp((err as jwt.JsonWebTokenError).message)
-                }
+            // Replacement requires the same access as update
+            if (entity && !isAdmin && !hasAccess(db, resource, entity, sub)) {
+                deny(
+                    req,
+                    res,
+                    403,
+                    'NOT_OWNER',
+                    'Private resource access: entity must have a reference to the owner id'
+                )
+                return
+            }
+
+            // Admins can write on behalf of other users
+            const keepOwner = isAdmin && owner in req.body
+
+            if (!isUserResource && !keepOwner) {
+                // Members replacing a shared entity keep its owner
+                req.body[owner] = entity && owner in entity ? entity[owner] : parseId(sub)
             }
 
-            if ("userId" in req.body || isUserResource) {
+            if (owner in req.body || isUserResource) {
                 next()
             } else {
-                res.status(403).jsonp(
+                deny(
+                    req,
+                    res,
+                    403,
+                    'OWNER_REQUIRED',
                     'Private resource creation: request body must have a reference to the owner id'
                 )
             }
@@ -88,30 +344,39 @@ const privateOnly: RequestHandler = (req, res, next) => {
         // Query and update
         // check userId on the resource
         if (req.method === 'GET' || req.method === 'PATCH' || req.method === 'DELETE') {
-            let hasRightUserId: boolean
-
-            // TODO: use foreignKeySuffix instead of assuming the default "Id"
-            if (id) {
-                // prettier-ignore
-                const entity = db.get(resource).getById(id).value() as any
-                // get id if we are in the users collection | userId if not
-                const comparer = (resource === "users") ? String(entity.id) : String(entity.userId)
-                hasRightUserId = comparer === req.claims!.sub
-            } else {
-                const entities = db.get(resource).value() as any[]
+            // Admins bypass owner checks
+            if (isAdmin) {
+                next()
+                return
+            }
 
-                // TODO: Array.every() for properly secured access.
-                // Array.some() is too relax, but maybe useful for prototyping usecase.
-                // But first we must handle the query params.
-                hasRightUserId = entities.some(
-                    (entity) => String(entity.userId) === req.claims!.sub
-                )
+            if (!id) {
+                // Only list the entities of the user
+                if (req.method === 'GET') {
+                    const entities = (db.get(resource).value() || []) as any[]
+                    const ownIds = entities
+                        .filter((item) => hasAccess(db, resource, item, sub))
+                        .map((item) => String(item[options.id]))
+
+                    restrictToIds(req, ownIds)
+                }
+
+                next()
+                return
             }
 
-            if (hasRightUserId) {
+            // prettier-ignore
+            const entity = db.get(resource).getById(id).value()
+
+            // Let json-server respond with a 404 if the entity does not exist
+            if (!entity || hasAccess(db, resource, entity, sub)) {
                 next()
             } else {
-                res.status(403).jsonp(
+                deny(
+                    req,
+                    res,
+                    403,
+                    'NOT_OWNER',
                     'Private resource access: entity must have a reference to the owner id'
                 )
             }
@@ -133,7 +398,7 @@ const readOnly: RequestHandler = (req, res, next) => {
     if (req.method === 'GET') {
         next()
     } else {
-        res.status(403).jsonp('Read only')
+        deny(req, res, 403, 'READ_ONLY', 'Read only')
     }
 }
 
@@ -155,6 +420,350 @@ const branch: ReadWriteBranch = ({ read, write }) => {
     }
 }
 
+/**
+ * Check if the user has verified their email, always true without the verifyEmail option
+ */
+function isVerified(db: Database, claims: Claims): boolean {
+    if (!options.verifyEmail || hasRole(claims, ADMIN_ROLE)) return true
+
+    // prettier-ignore
+    const user = db.get('users').getById(claims!.sub).value()
+    return !!user && user.verified === true
+}
+
+/**
+ * Verified Guard.
+ * Inherits from logged guard, and requires a verified email with the verifyEmail option.
+ */
+const verifiedOnly: RequestHandler = (req, res, next) => {
+    loggedOnly(req, res, () => {
+        if (isVerified(req.app.db!, req.claims)) {
+            next()
+        } else {
+            deny(req, res, 403, 'EMAIL_NOT_VERIFIED', 'Forbidden: requires a verified email')
+        }
+    })
+}
+
+/**
+ * Middleware checking a resource rule access
+ */
+function requireAccess(access: Access): RequestHandler {
+    if (access === 'public') return goNext
+    if (access === 'logged') return loggedOnly
+    if (access === 'verified') return verifiedOnly
+    if (access === 'owner') return privateOnly
+
+    const [kind, names] = access.split(':')
+
+    if (kind !== 'role' || !names) {
+        const accesses = 'public, logged, verified, owner or role:<name>'
+        throw Error(`Unknown access "${access}": use ${accesses}`)
+    }
+
+    const roles = names.split(',').map((role) => role.trim())
+
+    return (req, res, next) => {
+        loggedOnly(req, res, () => {
+            if (roles.some((role) => hasRole(req.claims, role))) {
+                next()
+            } else {
+                const reason = `Forbidden: requires role ${roles.join(' or ')}`
+                deny(req, res, 403, 'ROLE_REQUIRED', reason, { roles })
+            }
+        })
+    }
+}
+
+/**
+ * Apply the access rules of the requested resource, for the request method.
+ */
+const accessRules: RequestHandler = (req, res, next) => {
+    const [, , resource] = req.path.split('/')
+    const rule = resourceRules[resource]
+
+    // Let preflight requests pass
+    if (!rule || req.method === 'OPTIONS') {
+        next()
+        return
+    }
+
+    const isRead = req.method === 'GET' || req.method === 'HEAD'
+    const method = req.method.toLowerCase() as keyof ResourceRule
+    const access = (rule[method] || (isRead ? rule.read : rule.write)) as Access | undefined
+
+    if (access) {
+        requireAccess(access)(req, res, next)
+    } else {
+        next()
+    }
+}
+
+/**
+ * Fields of a resource having a given policy
+ */
+function fieldsWithPolicy(rule: ResourceRule, policy: FieldPolicy): string[] {
+    const fields = rule.fields || {}
+    return Object.keys(fields).filter((field) => ([] as string[]).concat(fields[field]).includes(policy))
+}
+
+/**
+ * Check if the caller can see a field of an entity: owner only fields are hidden from other users
+ */
+export function canSeeField(
+    db: Database,
+    resource: string,
+    entity: any,
+    field: string,
+    claims: Claims
+): boolean {
+    const rule = resourceRules[resource]
+
+    if (!rule || !fieldsWithPolicy(rule, 'ownerOnly').includes(field)) return true
+
+    return hasRole(claims, ADMIN_ROLE) || (!!claims && hasAccess(db, resource, entity, claims.sub))
+}
+
+/**
+ * Remove the owner only fields of an entity the caller does not own
+ */
+function hideOwnerOnlyFields(db: Database, resource: string, entity: any, claims: Claims): any {
+    const rule = resourceRules[resource]
+    const hiddenFields = rule ? fieldsWithPolicy(rule, 'ownerOnly') : []
+
+    if (
+        hiddenFields.length &&
+        entity &&
+        typeof entity === 'object' &&
+        !hasRole(claims, ADMIN_ROLE) &&
+        !(claims && hasAccess(db, resource, entity, claims.sub))
+    ) {
+        hiddenFields.forEach((field) => delete entity[field])
+    }
+
+    return entity
+}
+
+/**
+ * Reject a write of the request body on an entity with a 403
+ * if it changes read only, already set write once, or admin only fields (for non-admins)
+ * @returns true if the write was rejected
+ */
+export function rejectForbiddenFields(
+    req: Request,
+    res: Response,
+    resource: string,
+    entity: any
+): boolean {
+    const rule = resourceRules[resource]
+
+    if (!rule || !rule.fields) return false
+
+    const isAdmin = hasRole(optionalClaims(req), ADMIN_ROLE)
+    const readOnlyFields = fieldsWithPolicy(rule, 'readOnly')
+    const writeOnceFields = fieldsWithPolicy(rule, 'writeOnce')
+    const adminOnlyFields = fieldsWithPolicy(rule, 'adminOnly')
+
+    // Values already stored can be sent back as is
+    const changed = (field: string) =>
+        JSON.stringify(req.body[field]) !== JSON.stringify(entity[field])
+
+    const forbiddenFields = Object.keys(req.body)
+        .filter(changed)
+        .filter(
+            (field) =>
+                readOnlyFields.includes(field) ||
+                (writeOnceFields.includes(field) && entity[field] != null) ||
+                (adminOnlyFields.includes(field) && !isAdmin)
+        )
+
+    if (!forbiddenFields.length) return false
+
+    const reason = `Forbidden update on: ${forbiddenFields.join(', ')}`
+    deny(req, res, 403, 'FORBIDDEN_FIELDS', reason, { fields: forbiddenFields })
+    return true
+}
+
+/**
+ * Apply the field policies of the requested resource:
+ * reject forbidden writes in the request body, and hide owner only fields in the response.
+ */
+const fieldRules: RequestHandler = (req, res, next) => {
+    const [, , resource, id] = req.path.split('/')
+    const rule = resourceRules[resource]
+    const { db } = req.app
+
+    if (!rule || !rule.fields) {
+        next()
+        return
+    }
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    const claims = optionalClaims(req)
+    const isAdmin = hasRole(claims, ADMIN_ROLE)
+
+    if (req.method === 'POST' || req.method === 'PUT' || req.method === 'PATCH') {
+        // The owner of new entities is set from the token anyway
+        const entity = id
+            ? db.get(resource).getById(id).value() || {}
+            : claims ? { [ownerField(resource)]: parseId(claims.sub) } : {}
+
+        if (rejectForbiddenFields(req, res, resource, entity)) return
+
+        // Replacement keeps the protected fields that are not sent
+        if (req.method === 'PUT') {
+            ;[...fieldsWithPolicy(rule, 'readOnly'), ...fieldsWithPolicy(rule, 'writeOnce')]
+                .filter((field) => !(field in req.body) && field in entity)
+                .forEach((field) => (req.body[field] = entity[field]))
+        }
+    }
+
+    if (req.method === 'GET' && fieldsWithPolicy(rule, 'ownerOnly').length) {
+        // Filtering or sorting by a hidden field would reveal its values
+        if (!isAdmin) dropFieldQueries(req.query, fieldsWithPolicy(rule, 'ownerOnly'))
+
+        const hide = (entity: any) => hideOwnerOnlyFields(db, resource, entity, claims)
+        transformJsonResponse(res, (data) => (Array.isArray(data) ? data.map(hide) : hide(data)))
+    }
+
+    next()
+}
+
+/**
+ * Read access given by a guard code:
+ * public if everyone can read, logged if logged users can read, owner otherwise.
+ * @example
+ * 644 => 'public', 640 => 'logged', 600 => 'owner'
+ */
+function guardReadAccess(guard: number = 666): Access {
+    const [, logged, everyone] = String(guard).split('').map(Number)
+
+    if (everyone >= 4) return 'public'
+    if (logged >= 4) return 'logged'
+    return 'owner'
+}
+
+/**
+ * Check an access against the claims of the caller, without a request
+ */
+function isAllowed(
+    access: Access | undefined,
+    db: Database,
+    resource: string,
+    entity: any,
+    claims: Claims
+): boolean {
+    if (!access || access === 'public') return true
+    if (!claims) return false
+    if (access === 'logged') return true
+    if (access === 'verified') return isVerified(db, claims)
+    if (hasRole(claims, ADMIN_ROLE) && access === 'owner') return true
+    if (access === 'owner') return hasAccess(db, resource, entity, claims.sub)
+
+    const [, names] = access.split(':')
+    return names.split(',').some((role) => hasRole(claims, role.trim()))
+}
+
+/**
+ * Check if the caller can read an entity, with the guard and the read access of its resource
+ */
+export function canRead(db: Database, resource: string, entity: any, claims: Claims): boolean {
+    const rule = resourceRules[resource]
+
+    if (!rule) return true
+
+    return (
+        isAllowed(guardReadAccess(rule.guard), db, resource, entity, claims) &&
+        isAllowed(rule.get || rule.read, db, resource, entity, claims)
+    )
+}
+
+/**
+ * Run the records under a relation path through the guards of their resource,
+ * found with the relations of the parent resource (e.g. user or users => users).
+ */
+function guardRelation(data: any, parent: string | undefined, path: string[], db: Database, claims: Claims): any {
+    const [key, ...subPath] = path
+
+    if (Array.isArray(data)) {
+        return data.map((item) => guardRelation(item, parent, path, db, claims))
+    }
+
+    if (data == null || typeof data !== 'object' || data[key] == null || typeof data[key] !== 'object') {
+        return data
+    }
+
+    const resource = relatedCollection(parent, key)
+    const guard = (entity: any) =>
+        canRead(db, resource, entity, claims) ? hideOwnerOnlyFields(db, resource, entity, claims) : null
+
+    // Embedded lists drop the records, expanded records are replaced with null
+    data[key] = Array.isArray(data[key])
+        ? data[key].map(guard).filter((entity: any) => entity !== null)
+        : guard(data[key])
+
+    if (subPath.length) {
+        data[key] = guardRelation(data[key], resource, subPath, db, claims)
+    }
+
+    return data
+}
+
+/**
+ * Apply the guards of the related resources to the records added by _expand and _embed,
+ * so the guard of a resource cannot be bypassed through the relations of another one.
+ * Must be registered before the middlewares that add records to the response.
+ */
+export const relationsGuard: RequestHandler = (req, res, next) => {
+    const { _expand, _embed } = req.query
+    const paths: string[] = [...[].concat(_expand || []), ...[].concat(_embed || [])]
+    const { db } = req.app
+
+    if (!EXPANDABLE_METHODS.includes(req.method) || !paths.length) {
+        next()
+        return
+    }
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    const claims = optionalClaims(req)
+    const { resource } = requestedResource(req)
+
+    transformJsonResponse(res, (data) =>
+        paths.reduce((result, path) => guardRelation(result, resource, path.split('.'), db, claims), data)
+    )
+    next()
+}
+
+/**
+ * Hide the owner only fields of every resource in GET /db, as in the responses of the resources
+ */
+export const dbFieldsGuard: RequestHandler = (req, res, next) => {
+    const { db } = req.app
+
+    if (req.method !== 'GET' || requestedResource(req).resource !== 'db' || db == null) {
+        next()
+        return
+    }
+
+    const claims = optionalClaims(req)
+
+    transformJsonResponse(res, (data) => {
+        Object.keys(resourceRules)
+            .filter((resource) => data && Array.isArray(data[resource]))
+            .forEach((resource) => {
+                data[resource].forEach((entity: any) => hideOwnerOnlyFields(db, resource, entity, claims))
+            })
+        return data
+    })
+    next()
+}
+
 /**
  * Remove guard mod from baseUrl, so lowdb can handle the resource.
  */
@@ -173,6 +782,7 @@ const flattenUrl: RequestHandler = (req, res, next) => {
  */
 export default Router()
     .use(bodyParsingHandler)
+    .all(/^\/[640]{3}\//, accessRules, fieldRules)
     .all('/666/*', flattenUrl)
     .all('/664/*', branch({ read: goNext, write: loggedOnly }), flattenUrl)
     .all('/660/*', loggedOnly, flattenUrl)
@@ -187,19 +797,47 @@ export default Router()
 /**
  * Transform resource-guard mapping to proper rewrite rule supported by express-urlrewrite.
  * Return other rewrite rules as is, so we can use both types in routes.json.
+ * Guarded resources are registered, and rules in object form default to the 666 guard.
  * @example
  * { 'users': 600 } => { '/users*': '/600/users$1' }
+ * { 'products': { write: 'role:admin' } } => { '/products*': '/666/products$1' }
+ * { 'posts': { guard: 640, owner: 'authorId' } } => { '/posts*': '/640/posts$1' }
  */
-export function parseGuardsRules(resourceGuardMap: { [resource: string]: any }) {
+export function parseGuardsRules(resourceGuardMap: GuardRules) {
+    Object.keys(resourceRules).forEach((resource) => delete resourceRules[resource])
+
     return Object.entries(resourceGuardMap).reduce(
-        (routes, [resource, guard]) => {
+        (routes, [resource, rule]) => {
+            const isRule = typeof rule === 'object' && rule !== null
+            const guard = isRule ? (rule as ResourceRule).guard || 666 : rule
             const isGuard = /^[640]{3}$/m.test(String(guard))
 
+            if (isRule && !isGuard) {
+                throw Error(`Invalid guard ${guard} for resource "${resource}"`)
+            }
+
+            if (isRule) {
+                // Fail early on unknown access
+                const accesses = Object.entries(rule).filter(([key]) => ACCESS_KEYS.includes(key))
+                accesses.forEach(([, access]) => requireAccess(access))
+
+                // Fail early on unknown field policy
+                Object.entries((rule as ResourceRule).fields || {}).forEach(([field, policies]) => {
+                    ;([] as string[]).concat(policies).forEach((policy) => {
+                        if (!FIELD_POLICIES.includes(policy as FieldPolicy)) {
+                            throw Error(`Unknown policy "${policy}" for field "${resource}.${field}"`)
+                        }
+                    })
+                })
+
+            }
+
             if (isGuard) {
+                resourceRules[resource] = isRule ? (rule as ResourceRule) : { guard: Number(guard) }
                 routes[`/${resource}*`] = `/${guard}/${resource}$1`
             } else {
                 // Return as is if not a guard
-                routes[resource] = guard
+                routes[resource] = rule as string
             }
 
             return routes
@@ -213,7 +851,7 @@ export function parseGuardsRules(resourceGuardMap: { [resource: string]: any })
  * with JSON Server rewriter (which itself uses express-urlrewrite).
  * Works with normal rewrite rules as well.
  */
-export function rewriter(resourceGuardMap: { [resource: string]: number }): Router {
+export function rewriter(resourceGuardMap: GuardRules): Router {
     const routes = parseGuardsRules(resourceGuardMap)
     return jsonServer.rewriter(routes)
 }
@@ -1,16 +1,38 @@
 import { RequestHandler } from 'express'
-import guardsRouter, { rewriter } from './guards'
+import guardsRouter, { dbFieldsGuard, relationsGuard, rewriter } from './guards'
+import { requestIdMiddleware } from './logger'
 import usersRouter from './users'
 import nestedExpandMiddleware from './nested-expand'
+import { configure } from './options'
+import relationalQueryMiddleware from './relational-query'
+import sanitizeMiddleware from './sanitize'
+import sparseFieldsMiddleware from './sparse-fields'
 
 interface MiddlewaresWithRewriter extends Array<RequestHandler> {
 	rewriter: typeof rewriter
+	configure: typeof configure
 }
 
 // @ts-ignore shut the compiler up about defining in two steps
-// Order matters: nestedExpandMiddleware should be first to run before json-server's built-in middleware
-const middlewares: MiddlewaresWithRewriter = [nestedExpandMiddleware, usersRouter, guardsRouter]
+// Order matters: requestIdMiddleware should be first, so every log line has the request id,
+// then sanitizeMiddleware, sparseFieldsMiddleware, relationsGuard and dbFieldsGuard,
+// to clean the response once nested records are added (the guard needs the owner fields that may not be kept),
+// relationalQueryMiddleware should follow nestedExpandMiddleware, to paginate lists before records are expanded,
+// and both should run before json-server's built-in middleware
+// prettier-ignore
+const middlewares: MiddlewaresWithRewriter = [
+	requestIdMiddleware,
+	sanitizeMiddleware,
+	sparseFieldsMiddleware,
+	relationsGuard,
+	dbFieldsGuard,
+	nestedExpandMiddleware,
+	relationalQueryMiddleware,
+	usersRouter,
+	guardsRouter,
+]
 Object.defineProperty(middlewares, 'rewriter', { value: rewriter, enumerable: false })
+Object.defineProperty(middlewares, 'configure', { value: configure, enumerable: false })
 
 // export middlewares as is, so we can simply pass the module to json-server `--middlewares` flag
 export = middlewares
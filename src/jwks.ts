@@ -0,0 +1,109 @@
+import { createHash } from 'crypto'
+
+// Object identifiers, DER encoded
+const RSA_ENCRYPTION = '2a864886f70d010101'
+const EC_PUBLIC_KEY = '2a8648ce3d0201'
+const PRIME_256_V1 = '2a8648ce3d030107'
+
+export interface Jwk {
+    kty: 'RSA' | 'EC'
+    kid: string
+    alg: string
+    use: 'sig'
+    [param: string]: string
+}
+
+interface DerNode {
+    tag: number
+    content: Buffer
+}
+
+/**
+ * Read the DER nodes (tag, length, value) contained in a buffer
+ */
+function readDer(buffer: Buffer): DerNode[] {
+    const nodes: DerNode[] = []
+    let offset = 0
+
+    while (offset < buffer.length) {
+        const tag = buffer[offset]
+        let length = buffer[offset + 1]
+        offset += 2
+
+        // Long form: the first byte gives the number of length bytes
+        if (length > 0x7f) {
+            const bytes = length - 0x80
+            length = 0
+            for (let i = 0; i < bytes; i++) length = length * 256 + buffer[offset++]
+        }
+
+        nodes.push({ tag, content: buffer.slice(offset, offset + length) })
+        offset += length
+    }
+
+    return nodes
+}
+
+function base64url(buffer: Buffer): string {
+    // prettier-ignore
+    return buffer.toString('base64').replace(/=+$/, '').replace(/\+/g, '-').replace(/\//g, '_')
+}
+
+/**
+ * Remove the sign byte of DER integers
+ */
+function unsigned(integer: Buffer): Buffer {
+    return integer[0] === 0 ? integer.slice(1) : integer
+}
+
+/**
+ * JWK thumbprint, used as key id (https://tools.ietf.org/html/rfc7638)
+ */
+function thumbprint(members: { [param: string]: string }): string {
+    const sorted = Object.keys(members)
+        .sort()
+        .reduce((json, param) => ({ ...json, [param]: members[param] }), {})
+
+    return base64url(createHash('sha256').update(JSON.stringify(sorted)).digest())
+}
+
+/**
+ * Convert a PEM public key (SubjectPublicKeyInfo or PKCS#1)
+ * to a JSON Web Key, so other services can verify our tokens.
+ * Supports RSA keys and P-256 elliptic curve keys.
+ */
+export function publicKeyToJwk(pem: string, alg: string): Jwk {
+    const der = Buffer.from(pem.replace(/-----[^-]+-----|\s/g, ''), 'base64')
+    const [root] = readDer(der)
+    let members: { [param: string]: string }
+
+    if (/BEGIN RSA PUBLIC KEY/.test(pem)) {
+        const [n, e] = readDer(root.content)
+        members = { kty: 'RSA', n: base64url(unsigned(n.content)), e: base64url(unsigned(e.content)) }
+    } else {
+        const [algorithm, bitString] = readDer(root.content)
+        const [oid, parameters] = readDer(algorithm.content)
+        // Skip the unused bits byte of the bit string
+        const key = bitString.content.slice(1)
+
+        if (oid.content.toString('hex') === RSA_ENCRYPTION) {
+            const [n, e] = readDer(readDer(key)[0].content)
+            members = { kty: 'RSA', n: base64url(unsigned(n.content)), e: base64url(unsigned(e.content)) }
+        } else if (
+            oid.content.toString('hex') === EC_PUBLIC_KEY &&
+            parameters.content.toString('hex') === PRIME_256_V1
+        ) {
+            // Uncompressed point: 0x04 | x | y
+            members = {
+                kty: 'EC',
+                crv: 'P-256',
+                x: base64url(key.slice(1, 33)),
+                y: base64url(key.slice(33, 65)),
+            }
+        } else {
+            throw Error('Unsupported public key: use an RSA or a P-256 key')
+        }
+    }
+
+    return { ...members, kid: thumbprint(members), alg, use: 'sig' } as Jwk
+}
@@ -0,0 +1,92 @@
+import { randomBytes } from 'crypto'
+import { Request, RequestHandler } from 'express'
+import { options } from './options'
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+export type LogFormat = 'text' | 'json'
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+
+type LogFields = { [field: string]: any }
+
+export interface Logger {
+    debug(message: string, fields?: LogFields): void
+    info(message: string, fields?: LogFields): void
+    warn(message: string, fields?: LogFields): void
+    error(message: string, fields?: LogFields): void
+}
+
+/**
+ * @example
+ * text: 2019-06-12T10:00:00.000Z WARN  Access denied requestId=3f2a resource=posts
+ * json: {"time":"2019-06-12T10:00:00.000Z","level":"warn","message":"Access denied","requestId":"3f2a","resource":"posts"}
+ */
+function format(level: LogLevel, message: string, fields: LogFields): string {
+    const time = new Date().toISOString()
+    const definedFields = Object.entries(fields).filter(([, value]) => value !== undefined)
+
+    if (options.logFormat === 'json') {
+        return JSON.stringify({ time, level, message, ...fields })
+    }
+
+    const pairs = definedFields.map(([key, value]) =>
+        typeof value === 'string' && !/\s/.test(value) ? `${key}=${value}` : `${key}=${JSON.stringify(value)}`
+    )
+
+    return [time, level.toUpperCase().padEnd(5), message, ...pairs].join(' ')
+}
+
+function write(level: LogLevel, message: string, fields: LogFields) {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(options.logLevel)) return
+
+    const line = format(level, message, fields)
+
+    if (level === 'warn' || level === 'error') {
+        console.error(line)
+    } else {
+        console.log(line)
+    }
+}
+
+/**
+ * Logger adding the same fields (e.g. the request id) to every line
+ */
+export function createLogger(context: LogFields = {}): Logger {
+    return {
+        debug: (message, fields) => write('debug', message, { ...context, ...fields }),
+        info: (message, fields) => write('info', message, { ...context, ...fields }),
+        warn: (message, fields) => write('warn', message, { ...context, ...fields }),
+        error: (message, fields) => write('error', message, { ...context, ...fields }),
+    }
+}
+
+export const logger = createLogger()
+
+/**
+ * Id of the request, from the X-Request-Id header sent by a proxy, or generated
+ */
+export function requestId(req: Request): string {
+    if (!req.requestId) {
+        const header = req.get('X-Request-Id')
+        req.requestId = header && /^[\w-]{1,64}$/.test(header) ? header : randomBytes(8).toString('hex')
+    }
+
+    return req.requestId
+}
+
+/**
+ * Logger of a request, with its id on every line
+ */
+export function requestLogger(req: Request): Logger {
+    return createLogger({ requestId: requestId(req) })
+}
+
+/**
+ * Give an id to each request, and send it back in the X-Request-Id header,
+ * so clients can report it along with the errors they get
+ */
+export const requestIdMiddleware: RequestHandler = (req, res, next) => {
+    res.setHeader('X-Request-Id', requestId(req))
+    next()
+}
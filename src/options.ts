@@ -0,0 +1,129 @@
+import { readFileSync } from 'fs'
+import * as yargs from 'yargs'
+import { JWT_SECRET_KEY } from './constants'
+import { LogFormat, LogLevel } from './logger'
+import { RelationSchema, RelationsSchema } from './relations'
+
+// Read options from the cli flags and the json-server.json config file,
+// like the json-server cli does (https://github.com/typicode/json-server#cli-usage).
+const argv = yargs.config('config').default('config', 'json-server.json').argv as any
+
+export type JwtAlgorithm = 'HS256' | 'RS256' | 'ES256'
+
+export interface Options {
+    /** Database id property, like json-server --id */
+    id: string
+    /** Foreign key suffix, like json-server --foreignKeySuffix */
+    foreignKeySuffix: string
+    /** Secret used to sign and verify tokens with HS256 */
+    jwtSecret: string
+    jwtAlgorithm: JwtAlgorithm
+    /** Path to the PEM private key used to sign tokens with RS256 and ES256 */
+    jwtPrivateKey?: string
+    /** Path to the PEM public key used to verify tokens with RS256 and ES256 */
+    jwtPublicKey?: string
+    jwtIssuer?: string
+    jwtAudience?: string
+    /** Fields removed from user records in responses, in addition to the password */
+    secretFields: string[]
+    /** Collection names that do not follow the english plural of the relation (e.g. { "country": "countrys" }) */
+    plurals: { [singular: string]: string }
+    /** Relations that do not follow the naming conventions, including many-to-many relations */
+    relations: RelationsSchema
+    /** Maximum number of levels of an _expand or _embed path */
+    maxExpandDepth: number
+    /** Maximum number of relations resolved on the records of a level */
+    maxExpandBreadth: number
+    /** Minimum level of the log lines, error only with --quiet */
+    logLevel: LogLevel
+    logFormat: LogFormat
+    /** Respond with { error: { code, message, details } } instead of a bare message */
+    errorEnvelope: boolean
+    /** Send a verification link on registration, and store whether the email is verified */
+    verifyEmail: boolean
+    /** Failed logins allowed per email within the login window, 0 to disable */
+    loginMaxAttempts: number
+    /** Failed logins allowed per IP address within the login window, 0 to disable */
+    loginMaxAttemptsPerIp: number
+    /** Sliding window counting the failed logins, in seconds */
+    loginWindow: number
+    /** Lockout duration once a limit is reached, in seconds */
+    loginLockout: number
+}
+
+/**
+ * Relations from the relations section of the config file, or from a relations file
+ */
+function readRelations(relations: string | RelationsSchema | undefined): RelationsSchema {
+    return typeof relations === 'string' ? JSON.parse(readFileSync(relations, 'utf8')) : { ...relations }
+}
+
+/**
+ * Reject the relations without belongsTo, hasMany, or manyToMany with through,
+ * so a bad relations schema fails at startup rather than on each request resolving it
+ */
+function checkRelations(relations: RelationsSchema) {
+    Object.keys(relations).forEach((collection) => {
+        Object.keys(relations[collection] || {}).forEach((key) => {
+            const { belongsTo, hasMany, manyToMany, through }: RelationSchema =
+                relations[collection][key] || {}
+
+            if (!belongsTo && !hasMany && !(manyToMany && through)) {
+                const hint = 'use belongsTo, hasMany, or manyToMany with through'
+                throw Error(`Invalid relation "${collection}.${key}": ${hint}`)
+            }
+        })
+    })
+}
+
+/**
+ * Numeric flag that can be set to 0
+ */
+function numberOr(value: string | number | undefined, defaultValue: number): number {
+    return value === undefined ? defaultValue : Number(value)
+}
+
+function defaultOptions(): Options {
+    return {
+        id: argv.id || argv.i || 'id',
+        foreignKeySuffix: argv.foreignKeySuffix || argv.fks || 'Id',
+        jwtSecret: argv.jwtSecret || JWT_SECRET_KEY,
+        jwtAlgorithm: argv.jwtAlgorithm || 'HS256',
+        jwtPrivateKey: argv.jwtPrivateKey,
+        jwtPublicKey: argv.jwtPublicKey,
+        jwtIssuer: argv.jwtIssuer,
+        jwtAudience: argv.jwtAudience,
+        secretFields: [].concat(argv.secretFields || []),
+        plurals: { ...argv.plurals },
+        relations: readRelations(argv.relations),
+        maxExpandDepth: argv.maxExpandDepth || 5,
+        maxExpandBreadth: argv.maxExpandBreadth || 10,
+        logLevel: argv.logLevel || (argv.quiet ? 'error' : 'info'),
+        logFormat: argv.logFormat || 'text',
+        errorEnvelope: !!argv.errorEnvelope,
+        verifyEmail: !!argv.verifyEmail,
+        loginMaxAttempts: numberOr(argv.loginMaxAttempts, 5),
+        loginMaxAttemptsPerIp: numberOr(argv.loginMaxAttemptsPerIp, 20),
+        loginWindow: numberOr(argv.loginWindow, 15 * 60),
+        loginLockout: numberOr(argv.loginLockout, 15 * 60),
+    }
+}
+
+/**
+ * Current options, read by the middlewares on each request
+ */
+export const options: Options = defaultOptions()
+
+checkRelations(options.relations)
+
+/**
+ * Override options when using the module API.
+ * Options that are not given are reset to their cli or default value.
+ */
+export function configure(overrides: Partial<Options> = {}): Options {
+    const configured = { ...defaultOptions(), ...overrides }
+
+    checkRelations(configured.relations)
+    Object.assign(options, configured)
+    return options
+}
@@ -0,0 +1,30 @@
+import { Request } from 'express'
+import { OUTBOX_COLLECTION } from './constants'
+import { requestLogger } from './logger'
+
+export interface Mail {
+    to: string
+    subject: string
+    text: string
+}
+
+/**
+ * Send an email the offline way: there is no mail server,
+ * so it is stored in the _outbox collection of the db and printed on the console.
+ */
+export function sendMail(req: Request, mail: Mail) {
+    const { db } = req.app
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    db.defaults({ [OUTBOX_COLLECTION]: [] }).write()
+
+    // prettier-ignore
+    db.get(OUTBOX_COLLECTION)
+        .insert({ ...mail, sentAt: new Date().toISOString() })
+        .write()
+
+    requestLogger(req).info(`Email to ${mail.to}: ${mail.subject}`, { text: mail.text })
+}
@@ -0,0 +1,244 @@
+import { Request, RequestHandler, Response } from 'express'
+import * as pluralize from 'pluralize'
+import { canRead, canSeeField, optionalClaims } from './guards'
+import { createIndex, RecordIndex, Relation, relatedRecords, relationOf } from './relations'
+import { userSecretFields } from './sanitize'
+import { errorHandler, requestedResource, transformJsonResponse } from './shared-middlewares'
+
+type Readable = (collection: string, record: any) => boolean
+
+type Visible = (collection: string, record: any, field: string) => boolean
+
+type Filter = [string, string[], Relation[] | null]
+
+type Sort = [string, Relation[] | null]
+
+const OPERATOR = /(_lte|_gte|_ne|_like)$/
+
+const PAGINATION_PARAMS = ['_sort', '_order', '_page', '_limit', '_start', '_end']
+
+/**
+ * Relations of a query path, without its last segment (the field),
+ * or null if the path does not go through relations of the collection
+ * (e.g. a nested object stored in the records, that json-server can filter itself).
+ * @example
+ * people: 'city.state.name' => [city, state]
+ */
+function relationPath(collection: string, path: string, db: Database): Relation[] | null {
+    const keys = path.split('.').slice(0, -1)
+    const relations: Relation[] = []
+    let parent = collection
+
+    if (!keys.length) return null
+
+    for (const key of keys) {
+        // Plural names are one-to-many relations, e.g. posts?comments.text=hello
+        const relation = relationOf(parent, key, pluralize.isPlural(key) ? 'embed' : 'expand')
+        if (!db.has(relation.collection).value()) return null
+        relations.push(relation)
+        parent = relation.collection
+    }
+
+    return relations
+}
+
+/**
+ * Values of a field through the relations of a record,
+ * ignoring the related records the caller cannot read, and the fields hidden from the caller
+ */
+function valuesAt(
+    record: any,
+    path: string,
+    relations: Relation[] | null,
+    index: RecordIndex,
+    readable: Readable,
+    visible: Visible
+): any[] {
+    const field = path.split('.').pop()!
+    // prettier-ignore
+    const records = (relations || []).reduce(
+        (parents: any[], relation) => parents
+            .map((parent) => [].concat(relatedRecords(parent, relation, index) || []))
+            .reduce((all, related) => all.concat(related), [])
+            .filter((related: any) => readable(relation.collection, related)),
+        [record]
+    )
+
+    const [last] = (relations || []).slice(-1)
+
+    return records
+        .filter((related: any) => !last || visible(last.collection, related, field))
+        .map((related: any) => related[field])
+        .filter((value: any) => value != null)
+}
+
+/**
+ * Same filter as json-server, on values found through relations
+ */
+function matches(values: any[], key: string, wanted: string[]): boolean {
+    const [operator] = key.match(OPERATOR) || ['']
+
+    const test = (value: string, elementValue: any) => {
+        if (operator === '_gte') return value <= elementValue
+        if (operator === '_lte') return value >= elementValue
+        if (operator === '_ne') return value !== elementValue.toString()
+        if (operator === '_like') return new RegExp(value, 'i').test(elementValue.toString())
+        return value === elementValue.toString()
+    }
+
+    return operator === '_ne'
+        ? wanted.every((value) => values.every((elementValue) => test(value, elementValue)))
+        : wanted.some((value) => values.some((elementValue) => test(value, elementValue)))
+}
+
+/**
+ * Compare like lodash orderBy: missing values last
+ */
+function compare(a: any, b: any): number {
+    if (a === b) return 0
+    if (a == null) return 1
+    if (b == null) return -1
+    return a > b ? 1 : -1
+}
+
+/**
+ * Same pagination as json-server, with X-Total-Count and Link headers
+ */
+function paginate(items: any[], query: { [param: string]: any }, req: Request, res: Response): any[] {
+    const { _page, _limit, _start, _end } = query
+
+    if (_end || _limit || _page) {
+        res.setHeader('X-Total-Count', items.length)
+        res.setHeader('Access-Control-Expose-Headers', `X-Total-Count${_page ? ', Link' : ''}`)
+    }
+
+    if (_page) {
+        const page = Math.max(parseInt(_page, 10) || 1, 1)
+        const limit = parseInt(_limit, 10) || 10
+        const last = Math.ceil(items.length / limit)
+        const pageItems = items.slice((page - 1) * limit, page * limit)
+        const fullUrl = `${req.protocol}://${req.get('host')}${req.originalUrl}`
+        const link = (target: number) => fullUrl.replace(`page=${page}`, `page=${target}`)
+        const links: { [rel: string]: string } = {}
+
+        if (pageItems.length && pageItems.length !== items.length) {
+            links.first = link(1)
+            if (page > 1) links.prev = link(page - 1)
+            if (page < last) links.next = link(page + 1)
+            links.last = link(last)
+        }
+
+        res.links(links)
+        return pageItems
+    }
+
+    const start = parseInt(_start, 10) || 0
+
+    if (_end) return items.slice(start, parseInt(_end, 10))
+    if (_limit) return items.slice(start, start + parseInt(_limit, 10))
+    return items
+}
+
+/**
+ * Filter and sort lists by fields of related records, following the same relations as nested expansion,
+ * then paginate the result, as json-server would have done before us.
+ * @example
+ * GET /people?city.state.name=Tennessee&_sort=city.name&_page=2
+ */
+const relationalQueryMiddleware: RequestHandler = (req, res, next) => {
+    const { resource, id } = requestedResource(req)
+    const { db } = req.app
+
+    if (req.method !== 'GET' || !resource || id || db == null || !db.has(resource).value()) {
+        next()
+        return
+    }
+
+    let filters: Filter[]
+    let sorts: Sort[]
+
+    try {
+        filters = Object.keys(req.query)
+            .filter((key) => !key.startsWith('_'))
+            .map((key): Filter => [
+                key,
+                [].concat(req.query[key]),
+                relationPath(resource, key.replace(OPERATOR, ''), db),
+            ])
+            .filter(([, , relations]) => relations)
+
+        sorts = String(req.query._sort || '')
+            .split(',')
+            .filter(Boolean)
+            .map((field): Sort => [field, relationPath(resource, field, db)])
+    } catch (err) {
+        errorHandler(err, req, res, next)
+        return
+    }
+
+    if (!filters.length && !sorts.some(([, relations]) => relations)) {
+        next()
+        return
+    }
+
+    // Let json-server respond with the whole list, filtered by the other params
+    const query = { ...req.query }
+    filters.forEach(([key]) => delete req.query[key])
+    PAGINATION_PARAMS.forEach((param) => delete req.query[param])
+
+    const claims = optionalClaims(req)
+    const readable: Readable = (collection, record) => canRead(db, collection, record, claims)
+    // Owner only fields of other users have no value, so they cannot be probed
+    const visible: Visible = (collection, record, field) =>
+        canSeeField(db, collection, record, field, claims)
+    // Filters and sorts on secret fields of users are ignored, like on the users themselves
+    const secret = (path: string, relations: Relation[] | null) => {
+        const [last] = (relations || []).slice(-1)
+        const field = path.split('.').pop()!
+        return !!last && last.collection === 'users' && userSecretFields().includes(field)
+    }
+
+    transformJsonResponse(res, (data) => {
+        if (!Array.isArray(data)) return data
+
+        const index = createIndex(db)
+
+        const filtered = data.filter((item) =>
+            filters.every(([key, wanted, relations]) => {
+                const path = key.replace(OPERATOR, '')
+                if (secret(path, relations)) return true
+                return matches(valuesAt(item, path, relations, index, readable, visible), key, wanted)
+            })
+        )
+
+        const orders = String(query._order || '').toLowerCase().split(',')
+        // Stored nested objects are sorted by path, like json-server does
+        const sortValue = (item: any, [field, relations]: Sort) =>
+            secret(field, relations)
+                ? undefined
+                : relations
+                ? valuesAt(item, field, relations, index, readable, visible)[0]
+                : field.split('.').reduce((value, key) => (value == null ? value : value[key]), item)
+
+        const sorted = filtered
+            .map((item, position) => ({
+                item,
+                position,
+                values: sorts.map((sort) => sortValue(item, sort)),
+            }))
+            .sort((a, b) => {
+                for (let i = 0; i < sorts.length; i++) {
+                    const order = compare(a.values[i], b.values[i])
+                    if (order) return orders[i] === 'desc' ? -order : order
+                }
+                // Keep the original order of equal items
+                return a.position - b.position
+            })
+            .map(({ item }) => item)
+
+        return paginate(sorted, query, req, res)
+    })
+    next()
+}
+
+export default relationalQueryMiddleware
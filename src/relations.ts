@@ -0,0 +1,180 @@
+import * as pluralize from 'pluralize'
+import { options } from './options'
+
+/**
+ * Methods responding with records, on which relations can be resolved
+ */
+export const EXPANDABLE_METHODS = ['GET', 'POST', 'PUT', 'PATCH']
+
+/**
+ * Collection of a relation property, from the plurals option or the english plural
+ * @example
+ * 'person' => 'people', 'comments' => 'comments', 'country' => 'countrys' (with { "country": "countrys" })
+ */
+export function collectionOf(key: string): string {
+    return options.plurals[key] || pluralize.plural(key)
+}
+
+/**
+ * Relation name of a collection records, from the plurals option or the english singular
+ * @example
+ * 'people' => 'person', 'countrys' => 'country' (with { "country": "countrys" })
+ */
+export function singularOf(collection: string): string {
+    const key = Object.keys(options.plurals).find((singular) => options.plurals[singular] === collection)
+    return key || pluralize.singular(collection)
+}
+
+/**
+ * Relation declared in the relations schema, with one of belongsTo, hasMany or manyToMany
+ * @example
+ * { "belongsTo": "users", "foreignKey": "authorId" }
+ * { "hasMany": "employees", "foreignKey": "managerId" }
+ * { "manyToMany": "tags", "through": "postTags" }
+ */
+export interface RelationSchema {
+    belongsTo?: string
+    hasMany?: string
+    manyToMany?: string
+    /** Join collection of a many-to-many relation */
+    through?: string
+    /** Property referencing the parent record (belongsTo: in the parent record itself) */
+    foreignKey?: string
+    /** Property of the join collection referencing the related record */
+    otherKey?: string
+}
+
+/**
+ * Relations of each collection, by property name
+ * @example
+ * { "posts": { "author": { "belongsTo": "users", "foreignKey": "authorId" } } }
+ */
+export interface RelationsSchema {
+    [collection: string]: { [key: string]: RelationSchema }
+}
+
+export interface Relation {
+    type: 'belongsTo' | 'hasMany' | 'manyToMany'
+    collection: string
+    foreignKey: string
+    through?: string
+    otherKey?: string
+}
+
+/**
+ * Relation of a property, declared in the relations schema or following the naming conventions:
+ * expanded properties belong to the record referenced by `<name>Id`,
+ * embedded properties list the records referencing the parent with `<parent>Id`.
+ */
+export function relationOf(parent: string | undefined, key: string, kind: 'expand' | 'embed'): Relation {
+    const declared = parent && options.relations[parent] && options.relations[parent][key]
+    const { foreignKeySuffix } = options
+
+    const ownKey = `${key}${foreignKeySuffix}`
+    const parentKey = `${singularOf(parent || '')}${foreignKeySuffix}`
+
+    if (!declared) {
+        // prettier-ignore
+        return kind === 'expand'
+            ? { type: 'belongsTo', collection: collectionOf(key), foreignKey: ownKey }
+            : { type: 'hasMany', collection: collectionOf(key), foreignKey: parentKey }
+    }
+
+    if (declared.belongsTo) {
+        const foreignKey = declared.foreignKey || ownKey
+        return { type: 'belongsTo', collection: declared.belongsTo, foreignKey }
+    }
+
+    if (declared.hasMany) {
+        const foreignKey = declared.foreignKey || parentKey
+        return { type: 'hasMany', collection: declared.hasMany, foreignKey }
+    }
+
+    if (declared.manyToMany && declared.through) {
+        return {
+            type: 'manyToMany',
+            collection: declared.manyToMany,
+            through: declared.through,
+            foreignKey: declared.foreignKey || parentKey,
+            otherKey: declared.otherKey || `${singularOf(declared.manyToMany)}${foreignKeySuffix}`,
+        }
+    }
+
+    throw Error(
+        `Invalid relation "${parent}.${key}": use belongsTo, hasMany, or manyToMany with through`
+    )
+}
+
+/**
+ * Collection of the records under a property, whatever the kind of relation
+ */
+export function relatedCollection(parent: string | undefined, key: string): string {
+    const declared = parent && options.relations[parent] && options.relations[parent][key]
+    return declared ? relationOf(parent, key, 'expand').collection : collectionOf(key)
+}
+
+/**
+ * Records of the database indexed by id and by foreign key, built on demand for the time of a request,
+ * so relations are resolved without scanning a collection for each record
+ */
+export interface RecordIndex {
+    has(collection: string): boolean
+    byId(collection: string, id: any): any
+    byKey(collection: string, key: string, value: any): any[]
+}
+
+export function createIndex(db: Database): RecordIndex {
+    const indexes = new Map<string, Map<string, any[]>>()
+
+    const has = (collection: string) => Array.isArray(db.get(collection).value())
+
+    const lookup = (collection: string, key: string) => {
+        const name = `${collection}.${key}`
+
+        if (!indexes.has(name)) {
+            const index = new Map<string, any[]>()
+            const records: any[] = has(collection) ? db.get(collection).value() : []
+
+            records
+                .filter((record) => record != null && record[key] != null)
+                .forEach((record) => {
+                    const value = String(record[key])
+                    if (!index.has(value)) index.set(value, [])
+                    index.get(value)!.push(record)
+                })
+
+            indexes.set(name, index)
+        }
+
+        return indexes.get(name)!
+    }
+
+    return {
+        has,
+        byId: (collection, id) => (lookup(collection, options.id).get(String(id)) || [])[0],
+        byKey: (collection, key, value) => lookup(collection, key).get(String(value)) || [],
+    }
+}
+
+/**
+ * Records related to a record: a single record for belongsTo relations,
+ * a list for the others, and undefined if the relation cannot be resolved.
+ * Records are the ones of the database, they must be copied before being changed.
+ */
+export function relatedRecords(record: any, relation: Relation, index: RecordIndex): any {
+    const { type, collection, foreignKey, through, otherKey } = relation
+    const id = type === 'belongsTo' ? record[foreignKey] : record[options.id]
+
+    if (id == null || !index.has(collection)) return undefined
+
+    if (type === 'belongsTo') return index.byId(collection, id)
+
+    if (type === 'hasMany') return index.byKey(collection, foreignKey, id)
+
+    if (!index.has(through!)) return undefined
+
+    return index
+        .byKey(through!, foreignKey, id)
+        .map((join) => index.byId(collection, join[otherKey!]))
+        .filter(Boolean)
+}
@@ -0,0 +1,69 @@
+import { RequestHandler } from 'express'
+import { INTERNAL_COLLECTIONS } from './constants'
+import { options } from './options'
+import { relatedCollection } from './relations'
+import { dropFieldQueries, requestedResource, transformJsonResponse } from './shared-middlewares'
+
+/**
+ * Fields never sent back in user records
+ */
+export function userSecretFields(): string[] {
+    return ['password', ...options.secretFields]
+}
+
+/**
+ * Copy of a user record without its secret fields
+ */
+export function publicProfile(user: object): object {
+    const profile = { ...user }
+    userSecretFields().forEach((field) => delete profile[field])
+    return profile
+}
+
+/**
+ * Remove secret fields from user records, and look for users in nested records
+ * (embedded or expanded), finding their collection with the relations of the parent collection.
+ */
+function sanitize(data: any, collection: string | undefined, secretFields: string[]): any {
+    if (Array.isArray(data)) {
+        return data.map((item) => sanitize(item, collection, secretFields))
+    }
+
+    if (data == null || typeof data !== 'object') {
+        return data
+    }
+
+    if (collection === 'users') {
+        secretFields.forEach((field) => delete data[field])
+    }
+
+    Object.keys(data).forEach((key) => {
+        if (data[key] !== null && typeof data[key] === 'object') {
+            // e.g. user (expanded) or users (embedded, or in GET /db)
+            data[key] = sanitize(data[key], relatedCollection(collection, key), secretFields)
+        }
+    })
+
+    return data
+}
+
+/**
+ * Strip passwords and other secret fields from every response containing user records,
+ * and ignore the filters and sorts on these fields.
+ * Must be registered before the middlewares that add records to the response.
+ */
+const sanitizeMiddleware: RequestHandler = (req, res, next) => {
+    const { resource } = requestedResource(req)
+
+    if (resource === 'users') dropFieldQueries(req.query, userSecretFields())
+
+    transformJsonResponse(res, (data) => {
+        // The outbox and the revoked tokens are not served
+        if (resource === 'db' && data) INTERNAL_COLLECTIONS.forEach((name) => delete data[name])
+
+        return sanitize(data, resource, userSecretFields())
+    })
+    next()
+}
+
+export default sanitizeMiddleware
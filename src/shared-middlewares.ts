@@ -1,5 +1,7 @@
 import * as bodyParser from 'body-parser'
-import { ErrorRequestHandler, RequestHandler } from 'express'
+import { ErrorRequestHandler, Request, RequestHandler, Response } from 'express'
+import { requestLogger } from './logger'
+import { options } from './options'
 
 /**
  * Use same body-parser options as json-server
@@ -9,12 +11,69 @@ export const bodyParsingHandler = [
     bodyParser.urlencoded({ extended: false }),
 ]
 
+/**
+ * Machine-readable error codes, documented in docs/errors.md
+ */
+export type ErrorCode =
+    | 'EMAIL_PASSWORD_REQUIRED'
+    | 'INVALID_EMAIL'
+    | 'PASSWORD_TOO_SHORT'
+    | 'EMAIL_TAKEN'
+    | 'USER_NOT_FOUND'
+    | 'INCORRECT_PASSWORD'
+    | 'CURRENT_PASSWORD_REQUIRED'
+    | 'ROLE_CHANGE_FORBIDDEN'
+    | 'REFRESH_TOKEN_REQUIRED'
+    | 'EMAIL_REQUIRED'
+    | 'TOKEN_PASSWORD_REQUIRED'
+    | 'VERIFY_TOKEN_REQUIRED'
+    | 'TOKEN_MISMATCH'
+    | 'NO_PUBLIC_KEY'
+    | 'TOO_MANY_ATTEMPTS'
+    | 'MISSING_AUTHORIZATION'
+    | 'INVALID_AUTHORIZATION_SCHEME'
+    | 'MISSING_TOKEN'
+    | 'INVALID_TOKEN'
+    | 'TOKEN_EXPIRED'
+    | 'TOKEN_REVOKED'
+    | 'NOT_OWNER'
+    | 'OWNER_REQUIRED'
+    | 'NOT_GROUP_MEMBER'
+    | 'READ_ONLY'
+    | 'ROLE_REQUIRED'
+    | 'EMAIL_NOT_VERIFIED'
+    | 'FORBIDDEN_FIELDS'
+    | 'INVALID_RELATION_PATH'
+    | 'EXPAND_TOO_DEEP'
+    | 'EXPAND_TOO_WIDE'
+    | 'INTERNAL_ERROR'
+
+/**
+ * Respond with an error message, as a bare string by default,
+ * or in an envelope with a machine-readable code with the errorEnvelope option:
+ * { "error": { "code": "EMAIL_TAKEN", "message": "Email already exists" } }
+ */
+export function sendError(
+    res: Response,
+    status: number,
+    code: ErrorCode,
+    message: string,
+    details?: object
+) {
+    if (options.errorEnvelope) {
+        const error = details ? { code, message, details } : { code, message }
+        res.status(status).jsonp({ error })
+    } else {
+        res.status(status).jsonp(message)
+    }
+}
+
 /**
  * Json error handler
  */
 export const errorHandler: ErrorRequestHandler = (err, req, res, next) => {
-    console.error(err)
-    res.status(500).jsonp(err.message)
+    requestLogger(req).error(err.message, { stack: err.stack })
+    sendError(res, 500, 'INTERNAL_ERROR', err.message)
 }
 
 /**
@@ -26,18 +85,85 @@ export const goNext: RequestHandler = (req, res, next) => {
 }
 
 /**
- * Look for a property in the request body and reject the request if found
+ * Transform the JSON body of the response before sending it.
+ * When several handlers transform the same response,
+ * the one registered first transforms it last.
  */
-export function forbidUpdateOn(...forbiddenBodyParams: string[]): RequestHandler {
-    return (req, res, next) => {
-        const bodyParams = Object.keys(req.body)
-        const hasForbiddenParam = bodyParams.some(forbiddenBodyParams.includes)
+export function transformJsonResponse(res: Response, transform: (data: any) => any) {
+    const originalSend = res.send
 
-        if (hasForbiddenParam) {
-            res.status(403).jsonp(`Forbidden update on: ${forbiddenBodyParams.join(', ')}`)
-        } else {
-            next()
+    res.send = function(body?: any) {
+        const contentType = String(res.getHeader('Content-Type') || '')
+
+        // Objects are stringified by res.json, which calls res.send again
+        if (typeof body !== 'string' || !contentType.includes('application/json')) {
+            return originalSend.call(this, body)
+        }
+
+        let data: any
+        try {
+            data = JSON.parse(body)
+        } catch (error) {
+            return originalSend.call(this, body)
         }
+
+        // Keep json-server formatting
+        const spaces = res.app.get('json spaces')
+        return originalSend.call(this, JSON.stringify(transform(data), null, spaces))
+    }
+}
+
+/**
+ * Get the collection and the id targeted by the request,
+ * without the guard mod.
+ * @example
+ * '/600/posts/1?_expand=user' => { resource: 'posts', id: '1' }
+ * '/users/1/posts' => { resource: 'posts', id: undefined }
+ */
+export function requestedResource(req: Request): { resource?: string; id?: string } {
+    const segments = req.path.split('/').filter(Boolean)
+
+    if (/^[640]{3}$/.test(segments[0])) segments.shift()
+
+    // Nested route: /:parent/:parentId/:resource
+    if (segments.length > 2) {
+        return { resource: segments[2], id: segments[3] }
+    }
+
+    return { resource: segments[0], id: segments[1] }
+}
+
+const FILTER_SUFFIXES = ['', '_like', '_ne', '_gte', '_lte']
+
+/**
+ * Remove the json-server filters and sorts on some fields from a query,
+ * so the values of fields hidden from the response cannot be probed with them.
+ * The full-text search (q) looks into every field, so it is removed as well.
+ * @example
+ * dropFieldQueries(req.query, ['password']) // removes password_like=^a, _sort=password and q=a
+ */
+export function dropFieldQueries(query: { [param: string]: any }, fields: string[]) {
+    if (!fields.length) return
+
+    delete query.q
+    fields.forEach((field) => {
+        FILTER_SUFFIXES.forEach((suffix) => delete query[`${field}${suffix}`])
+    })
+
+    if (!query._sort) return
+
+    const orders = String(query._order || '').split(',')
+    const kept = String(query._sort)
+        .split(',')
+        .map((field, position) => [field, orders[position] || 'asc'])
+        .filter(([field]) => !fields.includes(field))
+
+    if (kept.length) {
+        query._sort = kept.map(([field]) => field).join(',')
+        if (query._order) query._order = kept.map(([, order]) => order).join(',')
+    } else {
+        delete query._sort
+        delete query._order
     }
 }
 
@@ -0,0 +1,75 @@
+import { RequestHandler } from 'express'
+import { transformJsonResponse } from './shared-middlewares'
+
+/**
+ * Fields to keep, by property name, with the fields to keep inside nested records
+ */
+interface FieldTree {
+    [key: string]: FieldTree
+}
+
+/**
+ * @example
+ * 'id,name,city.name,city.state.abbr' => { id: {}, name: {}, city: { name: {}, state: { abbr: {} } } }
+ */
+function fieldTree(fields: string[]): FieldTree {
+    const tree: FieldTree = {}
+
+    fields.forEach((field) => {
+        field.split('.').reduce((nodes, key) => (nodes[key] = nodes[key] || {}), tree)
+    })
+
+    return tree
+}
+
+/**
+ * Keep only the fields of the tree, in records and in their nested records.
+ * A field without nested fields is kept whole.
+ */
+function pick(data: any, tree: FieldTree): any {
+    if (Array.isArray(data)) {
+        return data.map((item) => pick(item, tree))
+    }
+
+    if (data == null || typeof data !== 'object') {
+        return data
+    }
+
+    return Object.keys(tree)
+        .filter((key) => key in data)
+        .reduce((picked, key) => {
+            const children = tree[key]
+            picked[key] = Object.keys(children).length ? pick(data[key], children) : data[key]
+            return picked
+        }, {} as { [key: string]: any })
+}
+
+/**
+ * Trim responses to the fields listed in the _fields param, including in expanded and embedded records.
+ * Must be registered before the middlewares that add records to the response.
+ * @example
+ * GET /people?_expand=city.state&_fields=id,name,city.name,city.state.abbr
+ */
+const sparseFieldsMiddleware: RequestHandler = (req, res, next) => {
+    const fields = ([] as string[])
+        .concat(req.query._fields || [])
+        .reduce((all, list) => all.concat(list.split(',')), [] as string[])
+        .map((field) => field.trim())
+        .filter(Boolean)
+
+    if (req.method !== 'GET' || !fields.length) {
+        next()
+        return
+    }
+
+    const tree = fieldTree(fields)
+
+    // Not a filter for json-server
+    delete req.query._fields
+
+    // Errors keep their body, e.g. the code of the error envelope
+    transformJsonResponse(res, (data) => (res.statusCode < 400 ? pick(data, tree) : data))
+    next()
+}
+
+export default sparseFieldsMiddleware
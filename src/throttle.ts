@@ -0,0 +1,127 @@
+import { Request, RequestHandler, Response } from 'express'
+import { requestLogger } from './logger'
+import { options } from './options'
+import { sendError } from './shared-middlewares'
+
+interface ThrottleState {
+    /** Times of the failed logins within the window, by key */
+    failures: Map<string, number[]>
+    /** End of the lockout, by key */
+    lockedUntil: Map<string, number>
+}
+
+/**
+ * Throttle state of each db, so every server (and every test) has its own
+ */
+const states = new WeakMap<object, ThrottleState>()
+
+export function throttleState(db: object): ThrottleState {
+    let state = states.get(db)
+
+    if (!state) {
+        state = { failures: new Map(), lockedUntil: new Map() }
+        states.set(db, state)
+    }
+
+    return state
+}
+
+/**
+ * Forget the failures out of the window and the ended lockouts,
+ * so the state does not grow with every email and IP address ever seen
+ */
+function pruneThrottleState({ failures, lockedUntil }: ThrottleState, now: number) {
+    const windowStart = now - options.loginWindow * 1000
+
+    failures.forEach((times, key) => {
+        const recent = times.filter((time) => time > windowStart)
+        if (recent.length) failures.set(key, recent)
+        else failures.delete(key)
+    })
+
+    lockedUntil.forEach((until, key) => {
+        if (until <= now) lockedUntil.delete(key)
+    })
+}
+
+function emailKey(email: string): string {
+    return `email:${String(email).toLowerCase()}`
+}
+
+/**
+ * Keys counting the failed logins of a request, with their limit
+ * @example
+ * [['email:jeremy@mail.com', 5], ['ip:127.0.0.1', 20]]
+ */
+function throttleKeys(req: Request, email: string): Array<[string, number]> {
+    const keys: Array<[string, number]> = [
+        [emailKey(email), options.loginMaxAttempts],
+        [`ip:${req.ip}`, options.loginMaxAttemptsPerIp],
+    ]
+
+    // A limit of 0 disables the throttling of the key
+    return keys.filter(([, limit]) => limit > 0)
+}
+
+/**
+ * Reject a password check while the email or the IP address is locked,
+ * with a 429 and a Retry-After header
+ * @returns true if the request was rejected
+ */
+export function rejectLocked(req: Request, res: Response, email: string): boolean {
+    const state = throttleState(req.app.db!)
+    const { lockedUntil } = state
+    const now = Date.now()
+
+    pruneThrottleState(state, now)
+
+    const until = throttleKeys(req, email)
+        .map(([key]) => lockedUntil.get(key) || 0)
+        .reduce((latest, time) => Math.max(latest, time), 0)
+
+    if (until <= now) return false
+
+    res.setHeader('Retry-After', String(Math.ceil((until - now) / 1000)))
+    sendError(res, 429, 'TOO_MANY_ATTEMPTS', 'Too many failed login attempts, try again later')
+    return true
+}
+
+/**
+ * Reject logins while the email or the IP address is locked
+ */
+export const throttleLogin: RequestHandler = (req, res, next) => {
+    if (!rejectLocked(req, res, req.body.email)) next()
+}
+
+/**
+ * Count a failed login in the sliding window of its email and IP address,
+ * and lock them once their limit is reached
+ */
+export function recordLoginFailure(req: Request, email: string) {
+    const state = throttleState(req.app.db!)
+    const { failures, lockedUntil } = state
+    const now = Date.now()
+
+    pruneThrottleState(state, now)
+
+    throttleKeys(req, email).forEach(([key, limit]) => {
+        const recent = [...(failures.get(key) || []), now]
+
+        if (recent.length < limit) {
+            failures.set(key, recent)
+            return
+        }
+
+        failures.delete(key)
+        lockedUntil.set(key, now + options.loginLockout * 1000)
+        requestLogger(req).warn('Login locked', { key, attempts: recent.length })
+    })
+}
+
+/**
+ * Forget the failed logins of an email once its password is found.
+ * Failures of the IP address are kept, so guessing the password of many users stays throttled.
+ */
+export function clearLoginFailures(req: Request, email: string) {
+    throttleState(req.app.db!).failures.delete(emailKey(email))
+}
@@ -0,0 +1,216 @@
+import { randomBytes } from 'crypto'
+import { readFileSync } from 'fs'
+import * as jwt from 'jsonwebtoken'
+import {
+    JWT_EXPIRES_IN,
+    JWT_REFRESH_EXPIRES_IN,
+    JWT_RESET_EXPIRES_IN,
+    JWT_VERIFY_EXPIRES_IN,
+    REVOKED_TOKENS_COLLECTION,
+} from './constants'
+import { Jwk, publicKeyToJwk } from './jwks'
+import { options } from './options'
+import { ErrorCode } from './shared-middlewares'
+
+type Claims = NonNullable<Express.Request['claims']>
+
+type TokenType = 'access' | 'refresh' | 'reset' | 'verify'
+
+export interface TokenPair {
+    accessToken: string
+    refreshToken: string
+}
+
+const keyFiles = new Map<string, string>()
+
+/**
+ * Read and cache a PEM key file
+ */
+function readKey(path: string | undefined, use: 'private' | 'public'): string {
+    if (!path) {
+        throw Error(`You must provide a ${use} key file to use the ${options.jwtAlgorithm} algorithm`)
+    }
+
+    if (!keyFiles.has(path)) {
+        keyFiles.set(path, readFileSync(path, 'utf8'))
+    }
+
+    return keyFiles.get(path)!
+}
+
+function isSymmetric(): boolean {
+    return options.jwtAlgorithm.startsWith('HS')
+}
+
+function signingKey(): string {
+    return isSymmetric() ? options.jwtSecret : readKey(options.jwtPrivateKey, 'private')
+}
+
+function verifyingKey(): string {
+    return isSymmetric() ? options.jwtSecret : readKey(options.jwtPublicKey, 'public')
+}
+
+/**
+ * Public key to publish on the JWKS route, null with a symmetric algorithm
+ */
+export function publicJwk(): Jwk | null {
+    return isSymmetric() ? null : publicKeyToJwk(verifyingKey(), options.jwtAlgorithm)
+}
+
+/**
+ * Sign a token with a unique id, so it can be revoked later on
+ */
+function sign(payload: object, subject: string, expiresIn: string): Promise<string> {
+    const { jwtAlgorithm, jwtIssuer, jwtAudience } = options
+    const jwk = publicJwk()
+
+    const signOptions: jwt.SignOptions = {
+        algorithm: jwtAlgorithm,
+        expiresIn,
+        subject,
+        jwtid: randomBytes(16).toString('hex'),
+    }
+    // jsonwebtoken rejects undefined options
+    if (jwtIssuer) signOptions.issuer = jwtIssuer
+    if (jwtAudience) signOptions.audience = jwtAudience
+    if (jwk) signOptions.keyid = jwk.kid
+
+    return new Promise<string>((resolve, reject) => {
+        jwt.sign(
+            payload,
+            signingKey(),
+            signOptions,
+            (error, token) => {
+                if (error) reject(error)
+                else resolve(token)
+            }
+        )
+    })
+}
+
+/**
+ * Create a short-lived access token and a long-lived refresh token for a user,
+ * with the user roles in the claims
+ */
+export function createTokens(user: {
+    email: string
+    role?: string
+    roles?: string[]
+    tokenVersion?: number
+    [key: string]: any
+}): Promise<TokenPair> {
+    const { email } = user
+    const subject = String(user[options.id])
+    // Users can have a single role or a list of roles
+    const roles = ([] as string[]).concat(user.roles || user.role || [])
+    const claims: { [claim: string]: any } = roles.length ? { email, roles } : { email }
+
+    // Tokens issued before an email or password change are rejected
+    if (user.tokenVersion) claims.tokenVersion = user.tokenVersion
+
+    return Promise.all([
+        sign(claims, subject, JWT_EXPIRES_IN),
+        sign({ ...claims, type: 'refresh' }, subject, JWT_REFRESH_EXPIRES_IN),
+    ]).then(([accessToken, refreshToken]) => ({ accessToken, refreshToken }))
+}
+
+/**
+ * Create a password reset token.
+ * It can only be used once, as the new password changes the token version of the user.
+ */
+export function createResetToken(user: {
+    email: string
+    tokenVersion?: number
+    [key: string]: any
+}): Promise<string> {
+    const { email, tokenVersion } = user
+    const claims = tokenVersion ? { email, tokenVersion, type: 'reset' } : { email, type: 'reset' }
+
+    return sign(claims, String(user[options.id]), JWT_RESET_EXPIRES_IN)
+}
+
+/**
+ * Create an email verification token, for the current email of the user
+ */
+export function createVerifyToken(user: { email: string; [key: string]: any }): Promise<string> {
+    const subject = String(user[options.id])
+    return sign({ email: user.email, type: 'verify' }, subject, JWT_VERIFY_EXPIRES_IN)
+}
+
+/**
+ * Verify signature, expiration, type and revocation of a token.
+ * Throws a JsonWebTokenError if the token is not valid.
+ */
+export function verifyToken(token: string, type: TokenType, db: Database): Claims {
+    const { jwtAlgorithm, jwtIssuer, jwtAudience } = options
+
+    const claims = jwt.verify(token, verifyingKey(), {
+        algorithms: [jwtAlgorithm],
+        issuer: jwtIssuer,
+        audience: jwtAudience,
+    }) as Claims
+
+    // Access tokens have no type claim, so older tokens keep working
+    if ((claims.type || 'access') !== type) {
+        throw new jwt.JsonWebTokenError(`invalid token type, expected ${type} token`)
+    }
+
+    if (claims.jti && isRevoked(claims.jti, db)) {
+        throw new jwt.JsonWebTokenError('jwt revoked')
+    }
+
+    // Verification links stay valid after a password change
+    if (type !== 'verify' && isOutdated(claims, db)) {
+        throw new jwt.JsonWebTokenError('jwt revoked by a credentials change or a deleted user')
+    }
+
+    return claims
+}
+
+/**
+ * Error code of a token verification failure
+ */
+export function tokenErrorCode(err: Error): ErrorCode {
+    if (err instanceof jwt.TokenExpiredError) return 'TOKEN_EXPIRED'
+    if (err.message.startsWith('jwt revoked')) return 'TOKEN_REVOKED'
+    return 'INVALID_TOKEN'
+}
+
+/**
+ * Store the token id in the db, and clean up tokens that have expired anyway
+ */
+export function revokeToken(claims: Claims, db: Database) {
+    if (!claims.jti) return
+
+    const now = Math.floor(Date.now() / 1000)
+
+    db.defaults({ [REVOKED_TOKENS_COLLECTION]: [] }).write()
+
+    // prettier-ignore
+    db.get(REVOKED_TOKENS_COLLECTION)
+        .remove((revoked: Claims) => revoked.exp < now)
+        .write()
+
+    // prettier-ignore
+    db.get(REVOKED_TOKENS_COLLECTION)
+        .push({ jti: claims.jti, sub: claims.sub, exp: claims.exp })
+        .write()
+}
+
+function isRevoked(jti: string, db: Database): boolean {
+    // prettier-ignore
+    return db.has(REVOKED_TOKENS_COLLECTION).value()
+        && !!db.get(REVOKED_TOKENS_COLLECTION).find({ jti }).value()
+}
+
+/**
+ * Token issued before the last email or password change of its user, or of a deleted user
+ */
+function isOutdated(claims: Claims, db: Database): boolean {
+    if (!db.has('users').value()) return false
+
+    // prettier-ignore
+    const user = db.get('users').getById(claims.sub).value()
+
+    return !user || (user.tokenVersion || 0) !== (claims.tokenVersion || 0)
+}
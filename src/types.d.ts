@@ -2,6 +2,8 @@
 
 declare type ArgumentType<F extends Function> = F extends (arg: infer Arg) => any ? Arg : never
 
+declare type Database = NonNullable<Express.Application['db']>
+
 declare namespace Express {
 	export interface Application {
 		/**
@@ -23,6 +25,21 @@ declare namespace Express {
 	}
 
 	export interface Request {
-		claims?: { email: string; iat: number; exp: number; sub: string }
+		/** Id given to the request, found in the log lines */
+		requestId?: string
+		claims?: {
+			email: string
+			iat: number
+			exp: number
+			sub: string
+			/** Token id, used for revocation */
+			jti?: string
+			/** Roles of the user */
+			roles?: string[]
+			/** Version of the user credentials, bumped on email or password change */
+			tokenVersion?: number
+			/** Only set on refresh, password reset and email verification tokens */
+			type?: 'refresh' | 'reset' | 'verify'
+		}
 	}
 }
@@ -1,14 +1,35 @@
 import * as bcrypt from 'bcryptjs'
-import { RequestHandler, Router } from 'express'
+import { Request, RequestHandler, Response, Router } from 'express'
 import * as jwt from 'jsonwebtoken'
 import {
+    ADMIN_ROLE,
     EMAIL_REGEX,
-    JWT_EXPIRES_IN,
-    JWT_SECRET_KEY,
     MIN_PASSWORD_LENGTH,
+    INTERNAL_COLLECTIONS,
     SALT_LENGTH,
 } from './constants'
-import { bodyParsingHandler, errorHandler } from './shared-middlewares'
+import { hasRole, loggedOnly, optionalClaims, rejectForbiddenFields } from './guards'
+import { options } from './options'
+import { Mail, sendMail } from './outbox'
+import { publicProfile } from './sanitize'
+import { clearLoginFailures, recordLoginFailure, rejectLocked, throttleLogin } from './throttle'
+import {
+    bodyParsingHandler,
+    ErrorCode,
+    errorHandler,
+    sendError,
+    transformJsonResponse,
+} from './shared-middlewares'
+import {
+    createResetToken,
+    createTokens,
+    createVerifyToken,
+    publicJwk,
+    revokeToken,
+    tokenErrorCode,
+    TokenPair,
+    verifyToken,
+} from './tokens'
 
 interface User {
     id: string
@@ -17,6 +38,28 @@ interface User {
     [key: string]: any // Allow any other field
 }
 
+/**
+ * Tokens and public user information returned by the authentication routes
+ */
+function authResponse({ accessToken, refreshToken }: TokenPair, user: User) {
+    return {
+        accessToken,
+        refreshToken,
+        user: {
+            [options.id]: user[options.id],
+            username: user.username || ""
+        }
+    }
+}
+
+/**
+ * Invalid request, rejected with a 400
+ */
+interface Rejection {
+    code: ErrorCode
+    message: string
+}
+
 type ValidateHandler = ({ required: required }: { required: boolean }) => RequestHandler
 
 /**
@@ -26,17 +69,17 @@ const validate: ValidateHandler = ({ required }) => (req, res, next) => {
     const { email, password } = req.body as Partial<User>
 
     if (required && (!email || !email.trim() || !password || !password.trim())) {
-        res.status(400).jsonp('Email and password are required')
+        sendError(res, 400, 'EMAIL_PASSWORD_REQUIRED', 'Email and password are required')
         return
     }
 
     if (email && !email.match(EMAIL_REGEX)) {
-        res.status(400).jsonp('Email format is invalid')
+        sendError(res, 400, 'INVALID_EMAIL', 'Email format is invalid')
         return
     }
 
     if (password && password.length < MIN_PASSWORD_LENGTH) {
-        res.status(400).jsonp('Password is too short')
+        sendError(res, 400, 'PASSWORD_TOO_SHORT', 'Password is too short')
         return
     }
 
@@ -44,13 +87,105 @@ const validate: ValidateHandler = ({ required }) => (req, res, next) => {
 }
 
 /**
- * Register / Create a user
+ * User targeted by the request: the one of the route id, or the current user on /me
+ */
+function targetUser(req: Request): User | undefined {
+    const { db } = req.app
+    // Routes of the current user are logged in already
+    const id = req.params.id || (req.claims && req.claims.sub)
+
+    return id && db ? db.get('users').getById(id).value() : undefined
+}
+
+/**
+ * Only admins can set or change user roles
+ */
+const protectRoles: RequestHandler = (req, res, next) => {
+    const stored: Partial<User> = targetUser(req) || {}
+
+    const changesRoles = ['role', 'roles'].some(
+        (field) =>
+            field in req.body && JSON.stringify(req.body[field]) !== JSON.stringify(stored[field])
+    )
+
+    if (!changesRoles) {
+        next()
+        return
+    }
+
+    if (!req.headers.authorization) {
+        sendError(res, 403, 'ROLE_CHANGE_FORBIDDEN', 'Only admins can change roles')
+        return
+    }
+
+    loggedOnly(req, res, () => {
+        if (hasRole(req.claims, ADMIN_ROLE)) {
+            next()
+        } else {
+            sendError(res, 403, 'ROLE_CHANGE_FORBIDDEN', 'Only admins can change roles')
+        }
+    })
+}
+
+/**
+ * Mail with a link to verify the email of a user
+ */
+function verificationMail(req: Request, email: string, token: string): Mail {
+    const link = `${req.protocol}://${req.get('host')}/verify?token=${token}`
+    return { to: email, subject: 'Verify your email', text: `Open ${link}` }
+}
+
+/**
+ * Send a link to verify the email of a user to the outbox
+ */
+function sendVerification(req: Request, user: User): Promise<void> {
+    return createVerifyToken(user).then((token) => {
+        sendMail(req, verificationMail(req, user.email, token))
+    })
+}
+
+/**
+ * Revoke the tokens of a user changing their email or password, once the guards accepted the write:
+ * bump the token version, add fresh tokens to the response of the user themselves,
+ * and with the verifyEmail option, send a link to verify the new email.
+ */
+function changeCredentials(
+    req: Request,
+    res: Response,
+    stored: User,
+    { isSelf, changesEmail }: { isSelf: boolean; changesEmail: boolean }
+): Promise<void> {
+    const tokenVersion = (stored.tokenVersion || 0) + 1
+    const user = { ...stored, ...req.body, tokenVersion }
+
+    return Promise.all<TokenPair | undefined, string | undefined>([
+        isSelf ? createTokens(user) : undefined,
+        options.verifyEmail && changesEmail ? createVerifyToken(user) : undefined,
+    ]).then(([tokens, verification]) => {
+        transformJsonResponse(res, (data) => {
+            // Nothing happens if the write was rejected
+            if (res.statusCode >= 400) return data
+
+            // prettier-ignore
+            req.app.db!.get('users').getById(stored[options.id]).assign({ tokenVersion }).write()
+            if (verification) sendMail(req, verificationMail(req, user.email, verification))
+
+            return tokens ? { ...data, ...tokens } : data
+        })
+    })
+}
+
+/**
+ * Register / Create a user.
+ * With the verifyEmail option, the user stays unverified until the link of the outbox is opened.
  */
 const create: RequestHandler = (req, res, next) => {
     const { email, password, ...rest } = req.body as User
     const { db } = req.app
     let createdUser
 
+    if (options.verifyEmail) rest.verified = false
+
     if (db == null) {
         // json-server CLI expose the router db to the app
         // (https://github.com/typicode/json-server/blob/master/src/cli/run.js#L74),
@@ -61,7 +196,7 @@ const create: RequestHandler = (req, res, next) => {
     // prettier-ignore
     const existingUser = db.get('users').find({ email }).value()
     if (existingUser) {
-        res.status(400).jsonp('Email already exists')
+        sendError(res, 400, 'EMAIL_TAKEN', 'Email already exists')
         return
     }
 
@@ -81,33 +216,19 @@ const create: RequestHandler = (req, res, next) => {
         })
         .then((user: User) => {
             createdUser = user
-            return new Promise<string>((resolve, reject) => {
-                jwt.sign(
-                    { email },
-                    JWT_SECRET_KEY,
-                    { expiresIn: JWT_EXPIRES_IN, subject: String(user.id) },
-                    (error, idToken) => {
-                        if (error) reject(error)
-                        else resolve(idToken)
-                    }
-                )
-            })
+            return options.verifyEmail ? sendVerification(req, user) : undefined
         })
-        .then((accessToken) => {
-            // Return an access token instead of the user record
-            res.status(201).jsonp({
-                accessToken,
-                user: {
-                    id: createdUser.id,
-                    username: createdUser.username || ""
-                }
-            })
+        .then(() => createTokens(createdUser))
+        .then((tokens) => {
+            // Return tokens instead of the user record
+            res.status(201).jsonp(authResponse(tokens, createdUser))
         })
         .catch(next)
 }
 
 /**
- * Login
+ * Login.
+ * Failed attempts are throttled per email and per IP address.
  */
 const login: RequestHandler = (req, res, next) => {
     const { email, password } = req.body as User
@@ -121,7 +242,8 @@ const login: RequestHandler = (req, res, next) => {
     const user = db.get('users').find({ email }).value() as User
 
     if (!user) {
-        res.status(400).jsonp('Cannot find user')
+        recordLoginFailure(req, email)
+        sendError(res, 400, 'USER_NOT_FOUND', 'Cannot find user')
         return
     }
 
@@ -130,61 +252,439 @@ const login: RequestHandler = (req, res, next) => {
         .then((same) => {
             if (!same) throw 400
 
-            return new Promise<string>((resolve, reject) => {
-                jwt.sign(
-                    { email },
-                    JWT_SECRET_KEY,
-                    { expiresIn: JWT_EXPIRES_IN, subject: String(user.id) },
-                    (error, idToken) => {
-                        if (error) reject(error)
-                        else resolve(idToken)
-                    }
-                )
-            })
+            clearLoginFailures(req, email)
+            return createTokens(user)
         })
-        .then((accessToken: string) => {
-            res.status(200).jsonp({
-                accessToken,
-                user: {
-                    id: user.id,
-                    username: user.username || ""
-                }
-            })
+        .then((tokens) => {
+            res.status(200).jsonp(authResponse(tokens, user))
         })
         .catch((err) => {
-            if (err === 400) res.status(400).jsonp('Incorrect password')
-            else next(err)
+            if (err === 400) {
+                recordLoginFailure(req, email)
+                sendError(res, 400, 'INCORRECT_PASSWORD', 'Incorrect password')
+            } else {
+                next(err)
+            }
         })
 }
 
 /**
- * Patch and Put user
+ * Exchange a refresh token for a new pair of tokens.
+ * The refresh token is rotated: once used, it is revoked.
  */
-// TODO: create new access token when password or email changes
-const update: RequestHandler = (req, res, next) => {
-    const { password } = req.body as Partial<User>
+const refresh: RequestHandler = (req, res, next) => {
+    const { refreshToken } = req.body as { refreshToken?: string }
+    const { db } = req.app
 
-    if (!password) {
-        next() // Simply continue with json-server router
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    if (!refreshToken) {
+        sendError(res, 400, 'REFRESH_TOKEN_REQUIRED', 'Refresh token is required')
+        return
+    }
+
+    let claims: NonNullable<typeof req.claims>
+
+    try {
+        claims = verifyToken(refreshToken, 'refresh', db)
+    } catch (err) {
+        sendError(res, 401, tokenErrorCode(err), (err as jwt.JsonWebTokenError).message)
+        return
+    }
+
+    // prettier-ignore
+    const user = db.get('users').getById(claims.sub).value() as User
+
+    if (!user) {
+        sendError(res, 401, 'USER_NOT_FOUND', 'Cannot find user')
+        return
+    }
+
+    revokeToken(claims, db)
+
+    createTokens(user)
+        .then((tokens) => {
+            res.status(200).jsonp(authResponse(tokens, user))
+        })
+        .catch(next)
+}
+
+/**
+ * Logout.
+ * Revoke the access token, and the refresh token if given.
+ */
+const logout: RequestHandler = (req, res, next) => {
+    const { refreshToken } = req.body as { refreshToken?: string }
+    const { db } = req.app
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    if (refreshToken) {
+        try {
+            const refreshClaims = verifyToken(refreshToken, 'refresh', db)
+
+            if (refreshClaims.sub !== req.claims!.sub) {
+                sendError(res, 403, 'TOKEN_MISMATCH', 'Refresh token belongs to another user')
+                return
+            }
+
+            revokeToken(refreshClaims, db)
+        } catch (err) {
+            sendError(res, 401, tokenErrorCode(err), (err as jwt.JsonWebTokenError).message)
+            return
+        }
+    }
+
+    revokeToken(req.claims!, db)
+    res.sendStatus(204)
+}
+
+/**
+ * Send a single-use password reset token to the outbox.
+ * Responds the same whether the user exists or not, so emails cannot be probed.
+ */
+const forgotPassword: RequestHandler = (req, res, next) => {
+    const { email } = req.body as Partial<User>
+    const { db } = req.app
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    if (!email || !email.trim()) {
+        sendError(res, 400, 'EMAIL_REQUIRED', 'Email is required')
+        return
+    }
+
+    // prettier-ignore
+    const user = db.get('users').find({ email }).value() as User
+
+    if (!user) {
+        res.sendStatus(204)
+        return
+    }
+
+    createResetToken(user)
+        .then((token) => {
+            sendMail(req, {
+                to: email,
+                subject: 'Reset your password',
+                text: `Send this token with your new password to POST /password/reset: ${token}`,
+            })
+            res.sendStatus(204)
+        })
+        .catch(next)
+}
+
+/**
+ * Set a new password with a reset token, and log the user in.
+ * Tokens issued before, including the reset token, are revoked.
+ */
+const resetPassword: RequestHandler = (req, res, next) => {
+    const { token, password } = req.body as { token?: string; password?: string }
+    const { db } = req.app
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    if (!token || !password || !password.trim()) {
+        sendError(res, 400, 'TOKEN_PASSWORD_REQUIRED', 'Token and password are required')
+        return
+    }
+
+    let claims: NonNullable<typeof req.claims>
+
+    try {
+        claims = verifyToken(token, 'reset', db)
+    } catch (err) {
+        sendError(res, 401, tokenErrorCode(err), (err as jwt.JsonWebTokenError).message)
+        return
+    }
+
+    // prettier-ignore
+    const user = db.get('users').getById(claims.sub).value() as User
+
+    if (!user) {
+        sendError(res, 401, 'USER_NOT_FOUND', 'Cannot find user')
         return
     }
 
     bcrypt
         .hash(password, SALT_LENGTH)
         .then((hash) => {
-            req.body.password = hash
-            next()
+            const tokenVersion = (user.tokenVersion || 0) + 1
+
+            // prettier-ignore
+            const updatedUser: User = db.get('users')
+                .getById(claims.sub)
+                .assign({ password: hash, tokenVersion })
+                .write()
+
+            return createTokens(updatedUser).then((tokens) => {
+                res.status(200).jsonp(authResponse(tokens, updatedUser))
+            })
         })
         .catch(next)
 }
 
+/**
+ * Verify the email of a user, with the link sent on registration or email change
+ */
+const verify: RequestHandler = (req, res, next) => {
+    const { token } = req.query as { token?: string }
+    const { db } = req.app
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    if (!token) {
+        sendError(res, 400, 'VERIFY_TOKEN_REQUIRED', 'Token is required')
+        return
+    }
+
+    let claims: NonNullable<typeof req.claims>
+
+    try {
+        claims = verifyToken(token, 'verify', db)
+    } catch (err) {
+        sendError(res, 401, tokenErrorCode(err), (err as jwt.JsonWebTokenError).message)
+        return
+    }
+
+    // prettier-ignore
+    const user = db.get('users').getById(claims.sub).value() as User
+
+    if (!user) {
+        sendError(res, 401, 'USER_NOT_FOUND', 'Cannot find user')
+        return
+    }
+
+    // Links sent to a previous email are not valid anymore
+    if (user.email !== claims.email) {
+        sendError(res, 401, 'INVALID_TOKEN', 'Token of a previous email')
+        return
+    }
+
+    // prettier-ignore
+    db.get('users').getById(claims.sub).assign({ verified: true }).write()
+    revokeToken(claims, db)
+
+    res.status(200).jsonp({ email: user.email, verified: true })
+}
+
+/**
+ * The outbox holds password reset and verification tokens,
+ * and the revoked tokens list the token and user ids, so json-server must not serve them
+ */
+const hideInternalCollections: RequestHandler = (req, res, next) => {
+    res.status(404).jsonp({})
+}
+
+/**
+ * Publish the public key, so other services can verify our tokens.
+ * Only available with asymmetric algorithms.
+ */
+const jwks: RequestHandler = (req, res, next) => {
+    const jwk = publicJwk()
+
+    if (!jwk) {
+        sendError(res, 404, 'NO_PUBLIC_KEY', 'No public key with a symmetric algorithm')
+        return
+    }
+
+    res.status(200).jsonp({ keys: [jwk] })
+}
+
+/**
+ * Patch and Put user.
+ * A new password requires the current one, unless an admin changes the password of another user,
+ * and only the user or an admin can send one.
+ * Once the write is accepted, a new email or password invalidates the tokens issued before,
+ * and a fresh pair of tokens is added to the response of the user.
+ * With the verifyEmail option, a new email must be verified again.
+ */
+const update: RequestHandler = (req, res, next) => {
+    const { email, password, currentPassword } = req.body as Partial<User>
+    const stored = targetUser(req)
+    const claims = req.claims || optionalClaims(req)
+    const changesEmail = !!stored && !!email && email !== stored.email
+
+    delete req.body.currentPassword
+    // The token version only changes here, and is kept on replacement
+    delete req.body.tokenVersion
+    if (stored && stored.tokenVersion) req.body.tokenVersion = stored.tokenVersion
+
+    // Only admins can verify an email by hand
+    if (options.verifyEmail && !hasRole(claims, ADMIN_ROLE)) {
+        delete req.body.verified
+        if (stored && 'verified' in stored) req.body.verified = stored.verified
+    }
+    if (options.verifyEmail && changesEmail) req.body.verified = false
+
+    if (!password && !changesEmail) {
+        next() // Simply continue with json-server router
+        return
+    }
+
+    const isSelf = !!stored && !!claims && claims.sub === String(stored[options.id])
+    const isOther = !!stored && !!claims && !isSelf
+    const byAdmin = isOther && hasRole(claims, ADMIN_ROLE)
+
+    // Passwords are compared with the stored one only for the user or an admin,
+    // so the responses tell nothing about it to the others, before the guards run
+    if (stored && password && !isSelf && !byAdmin) {
+        loggedOnly(req, res, () =>
+            sendError(res, 403, 'NOT_OWNER', 'Only the user can change their password')
+        )
+        return
+    }
+
+    // Wrong current passwords are throttled like failed logins
+    if (stored && currentPassword && !byAdmin && rejectLocked(req, res, stored.email)) return
+
+    // PUT always sends the password, maybe unchanged
+    const samePassword: Promise<boolean> =
+        stored && password ? bcrypt.compare(password, stored.password) : Promise.resolve(true)
+
+    samePassword
+        .then((same): boolean | Promise<boolean> => {
+            const changesPassword = !!stored && !!password && !same
+
+            if (!changesPassword || byAdmin) return changesPassword
+            if (!currentPassword) {
+                const message = 'Current password is required to change the password'
+                throw { code: 'CURRENT_PASSWORD_REQUIRED', message } as Rejection
+            }
+
+            return bcrypt.compare(currentPassword, stored!.password).then((valid) => {
+                if (!valid) {
+                    recordLoginFailure(req, stored!.email)
+                    const message = 'Incorrect current password'
+                    throw { code: 'INCORRECT_PASSWORD', message } as Rejection
+                }
+                clearLoginFailures(req, stored!.email)
+                return changesPassword
+            })
+        })
+        .then((changesPassword) =>
+            Promise.resolve(password ? bcrypt.hash(password, SALT_LENGTH) : '').then((hash) => {
+                if (hash) req.body.password = hash
+
+                if (!changesPassword && !changesEmail) return undefined
+
+                // Only the user themselves gets the new tokens, not an admin or an anonymous caller
+                return changeCredentials(req, res, stored!, { isSelf, changesEmail })
+            })
+        )
+        .then(() => next())
+        .catch((err) => {
+            if (err instanceof Error) next(err)
+            else sendError(res, 400, (err as Rejection).code, (err as Rejection).message)
+        })
+}
+
+/**
+ * User of the access token, or a 404 if it has been deleted since
+ */
+function currentUser(req: Request, res: Response): User | undefined {
+    const { db } = req.app
+
+    if (db == null) {
+        throw Error('You must bind the router db to the app')
+    }
+
+    // prettier-ignore
+    const user = db.get('users').getById(req.claims!.sub).value() as User
+
+    if (!user) {
+        sendError(res, 404, 'USER_NOT_FOUND', 'Cannot find user')
+    }
+
+    return user
+}
+
+/**
+ * Profile of the current user
+ */
+const getMe: RequestHandler = (req, res, next) => {
+    const user = currentUser(req, res)
+
+    if (user) {
+        res.status(200).jsonp(publicProfile(user))
+    }
+}
+
+/**
+ * Update the current user, once validated and with the password hashed by update
+ */
+const patchMe: RequestHandler = (req, res, next) => {
+    const { db } = req.app
+    const user = currentUser(req, res)
+
+    if (!user) return
+
+    const { email } = req.body as Partial<User>
+    // prettier-ignore
+    const existingUser = email && db!.get('users').find({ email }).value()
+
+    if (existingUser && existingUser !== user) {
+        sendError(res, 400, 'EMAIL_TAKEN', 'Email already exists')
+        return
+    }
+
+    // Same field policies as PATCH /users/:id
+    if (rejectForbiddenFields(req, res, 'users', user)) return
+
+    // The id cannot be changed
+    const changes = { ...req.body }
+    delete changes[options.id]
+
+    // prettier-ignore
+    const updatedUser = db!.get('users').getById(req.claims!.sub).assign(changes).write()
+
+    res.status(200).jsonp(publicProfile(updatedUser))
+}
+
+/**
+ * Delete the current user, and revoke the access token
+ */
+const deleteMe: RequestHandler = (req, res, next) => {
+    const { db } = req.app
+    const user = currentUser(req, res)
+
+    if (!user) return
+
+    // prettier-ignore
+    db!.get('users').removeById(req.claims!.sub).write()
+    revokeToken(req.claims!, db!)
+
+    res.sendStatus(204)
+}
+
 /**
  * Users router
  */
 export default Router()
     .use(bodyParsingHandler)
-    .post('/users|register', validate({ required: true }), create)
-    .post('/login', validate({ required: true }), login)
-    .put('/users/:id', validate({ required: true }), update)
-    .patch('/users/:id', validate({ required: false }), update)
+    .post('/users|register', validate({ required: true }), protectRoles, create)
+    .post('/login', validate({ required: true }), throttleLogin, login)
+    .post('/token/refresh', refresh)
+    .post('/logout', loggedOnly, logout)
+    .get('/.well-known/jwks.json', jwks)
+    .post('/password/forgot', forgotPassword)
+    .post('/password/reset', validate({ required: false }), resetPassword)
+    .get('/verify', verify)
+    .all(INTERNAL_COLLECTIONS.map((name) => `/:guard([640]{3})?/${name}*`), hideInternalCollections)
+    .get('/me', loggedOnly, getMe)
+    .patch('/me', loggedOnly, validate({ required: false }), protectRoles, update, patchMe)
+    .delete('/me', loggedOnly, deleteMe)
+    // Also match guarded routes (e.g. /600/users/1)
+    .put('/:guard([640]{3})?/users/:id', validate({ required: true }), protectRoles, update)
+    .patch('/:guard([640]{3})?/users/:id', validate({ required: false }), protectRoles, update)
     .use(errorHandler)